@@ -9,7 +9,11 @@ import dts from 'rollup-plugin-dts';
 
 import pkg from './package.json';
 
-const typescript = () => baseTypescript({ useTsconfigDeclarationDir: true });
+const typescript = () =>
+	baseTypescript({
+		useTsconfigDeclarationDir: true,
+		tsconfigOverride: { exclude: ['src/**/*.test.ts'] }
+	});
 
 export default [
 	// browser-friendly UMD build
@@ -36,7 +40,16 @@ export default [
 	// CommonJS (for Node) and ES module (for bundlers) build.
 	{
 		input: 'src/index.ts',
-		external: ['axios', 'ethers', 'yargs', 'inquirer'],
+		external: [
+			'axios',
+			'crypto',
+			'ethers',
+			'fs',
+			'hash.js',
+			'stream',
+			'yargs',
+			'inquirer'
+		],
 		plugins: [
 			resolve({ resolveOnly: ['browser-fs-access'] }),
 			commonjs(),
@@ -47,9 +60,44 @@ export default [
 			{ file: pkg.module, format: 'es', sourcemap: true }
 		]
 	},
+	// node-only entry points, published separately to keep them out of the
+	// browser bundle
+	{
+		input: {
+			emulator: 'src/emulator.ts',
+			webhook: 'src/webhook.ts'
+		},
+		external: ['axios', 'crypto', 'events', 'fs', 'http', 'stream'],
+		plugins: [typescript()],
+		output: [
+			{
+				dir: 'dist',
+				format: 'cjs',
+				sourcemap: true,
+				entryFileNames: '[name].cjs.js',
+				chunkFileNames: '[name]-[hash].cjs.js'
+			},
+			{
+				dir: 'dist',
+				format: 'es',
+				sourcemap: true,
+				entryFileNames: '[name].esm.js',
+				chunkFileNames: '[name]-[hash].esm.js'
+			}
+		]
+	},
+	// the type declarations of all entry points share the common types
 	{
-		input: ['dist/types/index.d.ts'],
-		output: [{ file: 'dist/index.d.ts', format: 'es' }],
+		input: {
+			index: 'dist/types/index.d.ts',
+			emulator: 'dist/types/emulator.d.ts',
+			webhook: 'dist/types/webhook.d.ts'
+		},
+		output: {
+			dir: 'dist',
+			format: 'es',
+			chunkFileNames: 'types-[hash].d.ts'
+		},
 		plugins: [dts()]
 	},
 	// cli
@@ -57,10 +105,14 @@ export default [
 		input: 'src/cli/index.ts',
 		external: [
 			'axios',
+			'crypto',
 			'ethers',
 			'fs',
+			'hash.js',
 			'inquirer',
+			'os',
 			'path',
+			'stream',
 			'yargs',
 			'yargs/helpers'
 		],
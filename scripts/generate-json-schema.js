@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+// Generates `src/types/jsonSchema.ts` from the JSON schemas in
+// `src/types/api-schema.json`, so that they can be used for validating the API
+// responses at runtime without parsing any JSON. Run by `yarn build:schema`.
+
+const fs = require('fs');
+const path = require('path');
+const prettier = require('prettier');
+
+const root = path.join(__dirname, '..');
+const sourcePath = path.join(root, 'src/types/api-schema.json');
+const outputPath = path.join(root, 'src/types/jsonSchema.ts');
+
+const header = `/* tslint:disable */
+/**
+ * This file was automatically generated by scripts/generate-json-schema.js.
+ * DO NOT MODIFY IT BY HAND. Instead, modify the source JSON schemas in
+ * api-schema.json, and run \`yarn build:schema\` to regenerate this file.
+ */
+
+export type JsonSchema = {
+	type?: JsonSchemaType | JsonSchemaType[];
+	enum?: readonly unknown[];
+	properties?: Record<string, JsonSchema>;
+	required?: readonly string[];
+	additionalProperties?: boolean | JsonSchema;
+	items?: JsonSchema;
+	anyOf?: readonly JsonSchema[];
+};
+
+export type JsonSchemaType =
+	| 'string'
+	| 'number'
+	| 'integer'
+	| 'boolean'
+	| 'object'
+	| 'array'
+	| 'null';
+`;
+
+const refPrefix = '#/definitions/';
+
+const constName = name => `${name}Schema`;
+
+function refName(schema) {
+	const ref = schema && schema.$ref;
+	if (typeof ref !== 'string') {
+		return null;
+	}
+	if (!ref.startsWith(refPrefix)) {
+		throw new Error(`Unsupported $ref: ${ref}`);
+	}
+	return ref.slice(refPrefix.length);
+}
+
+// Collects the names of the definitions referenced by a schema.
+function collectRefs(value, refs = new Set()) {
+	const name = refName(value);
+	if (name) {
+		refs.add(name);
+	} else if (value && typeof value === 'object') {
+		Object.values(value).forEach(v => collectRefs(v, refs));
+	}
+	return refs;
+}
+
+// Serializes a schema as a TypeScript expression, replacing the references to
+// other definitions with their constants.
+function toTs(value) {
+	const name = refName(value);
+	if (name) {
+		return constName(name);
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(toTs).join(', ')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const fields = Object.entries(value).map(
+			([key, v]) => `${JSON.stringify(key)}: ${toTs(v)}`
+		);
+		return `{${fields.join(', ')}}`;
+	}
+	return JSON.stringify(value);
+}
+
+function generate(definitions) {
+	const emitted = new Set();
+	const visiting = new Set();
+	const consts = [];
+
+	// emits the definitions after all the ones they reference
+	const emit = name => {
+		if (emitted.has(name)) {
+			return;
+		}
+		if (!(name in definitions)) {
+			throw new Error(`Unknown definition: ${name}`);
+		}
+		if (visiting.has(name)) {
+			throw new Error(`Circular reference in definition: ${name}`);
+		}
+		visiting.add(name);
+		collectRefs(definitions[name]).forEach(emit);
+		visiting.delete(name);
+		emitted.add(name);
+		consts.push(
+			`export const ${constName(name)}: JsonSchema = ${toTs(
+				definitions[name]
+			)};`
+		);
+	};
+	Object.keys(definitions).forEach(emit);
+
+	return [header, ...consts].join('\n\n');
+}
+
+const { definitions } = JSON.parse(fs.readFileSync(sourcePath, 'utf8'));
+const options = prettier.resolveConfig.sync(outputPath);
+const output = prettier.format(generate(definitions), {
+	...options,
+	filepath: outputPath
+});
+fs.writeFileSync(outputPath, output);
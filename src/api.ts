@@ -1,7 +1,28 @@
-import axios, { AxiosInstance, AxiosRequestConfig, Method } from 'axios';
+import {
+	defaultRetryPolicy,
+	makeRequest,
+	makeRawRequest,
+	trackUploadProgress,
+	RetryPolicy,
+	UploadProgressCallback
+} from './http';
 import { Asset, Task, FfmpegProfile } from './types/schema';
+import { defaultTransport, Transport } from './transport';
+import { validateAsset, validateTask } from './validation';
 
 export * from './types/schema';
+export {
+	AbortError,
+	ApiError,
+	NetworkError,
+	UnauthorizedError,
+	NotFoundError,
+	RateLimitError,
+	ServerError,
+	RetryPolicy,
+	UploadProgress,
+	UploadProgressCallback
+} from './http';
 
 /**
  * Endpoint of the production Livepeer API. Can be used as the `apiEndpoint`
@@ -9,44 +30,223 @@ export * from './types/schema';
  */
 export const prodApiEndpoint = 'https://livepeer.com';
 
-const fileUploadClient = axios.create({
-	maxContentLength: Infinity,
-	maxBodyLength: Infinity,
-	maxRedirects: 0
-});
-
-async function makeRequest<T>(
-	client: AxiosInstance,
-	method: Method,
-	url: string,
-	data?: any,
-	additionalConfig?: AxiosRequestConfig<any>
-) {
-	try {
-		const res = await client.request({
-			...additionalConfig,
-			method,
-			url,
-			data
-		});
-		return res.data as T;
-	} catch (err: any) {
-		if (!axios.isAxiosError(err) || !err.response) {
-			throw err;
-		}
-		const { status, statusText, data } = err.response;
-		let msg = JSON.stringify(data);
-		if (Array.isArray(data?.errors) && data.errors.length > 0) {
-			msg = data.errors[0];
-		}
+type ExportTaskParams = NonNullable<Task['params']>['export'];
 
+/**
+ * Parameters for exporting an asset to a custom URL, through an HTTP request
+ * made by the Livepeer API with the file contents as the body.
+ */
+export type CustomExportParams = Extract<
+	ExportTaskParams,
+	{ custom: unknown }
+>['custom'];
+
+/**
+ * Custom credentials for pinning the files exported to IPFS in your own
+ * {@link https://www.pinata.cloud/ | Piñata} account. Must have either a `jwt`
+ * or an `apiKey` and `apiSecret` pair.
+ */
+export type PinataCredentials = NonNullable<
+	Extract<ExportTaskParams, { ipfs: unknown }>['ipfs']['pinata']
+>;
+
+const isNonEmptyString = (value: unknown) =>
+	typeof value === 'string' && value.length > 0;
+
+/**
+ * Validates the shape of the Piñata credentials, throwing an error if they are
+ * invalid. This is called automatically by {@link VodApi.exportAsset}.
+ *
+ * @param pinata The credentials to validate.
+ */
+export function validatePinataCredentials(pinata: PinataCredentials) {
+	if (!pinata || typeof pinata !== 'object') {
+		throw new Error('Pinata credentials must be an object');
+	}
+	const { jwt, apiKey, apiSecret } = pinata as Record<string, unknown>;
+	const hasKeyPair = apiKey != null || apiSecret != null;
+	if (jwt != null && hasKeyPair) {
+		throw new Error(
+			'Pinata credentials must have either a JWT or an API key and secret, not both'
+		);
+	}
+	if (jwt != null) {
+		if (!isNonEmptyString(jwt)) {
+			throw new Error('Pinata JWT must be a non-empty string');
+		}
+		return;
+	}
+	if (!isNonEmptyString(apiKey) || !isNonEmptyString(apiSecret)) {
 		throw new Error(
-			`Request to ${url} failed (${status} ${statusText}): ${msg}`
+			'Pinata credentials must have either a JWT or both an API key and an API secret'
 		);
 	}
 }
 
-type ExportTaskParams = NonNullable<Task['params']>['export'];
+/**
+ * The possible phases of an {@link Asset}.
+ */
+export type AssetPhase = NonNullable<Asset['status']>['phase'];
+
+/**
+ * The possible phases of a {@link Task}.
+ */
+export type TaskPhase = NonNullable<NonNullable<Task['status']>['phase']>;
+
+/**
+ * The phases in which a {@link Task} is finished and will not change anymore.
+ */
+export const terminalTaskPhases: readonly TaskPhase[] = [
+	'completed',
+	'failed',
+	'cancelled'
+];
+
+/**
+ * Checks whether a task is finished, i.e. in one of the
+ * {@link terminalTaskPhases}.
+ */
+export function isTaskFinished(task: Task) {
+	const phase = task.status?.phase;
+	return !!phase && terminalTaskPhases.includes(phase);
+}
+
+/**
+ * A range of timestamps (in milliseconds) used for filtering objects by their
+ * creation time. Both ends are inclusive and optional.
+ */
+export type TimeRange = {
+	gte?: number;
+	lte?: number;
+};
+
+/**
+ * Filters for listing assets with {@link VodApi.listAssets}. Only the assets
+ * matching all of the specified filters are returned.
+ */
+export type AssetFilters = {
+	/**
+	 * Only return assets in this phase, or in any of them if a list is given.
+	 */
+	phase?: AssetPhase | AssetPhase[];
+	/**
+	 * Only return assets of this type.
+	 */
+	type?: NonNullable<Asset['type']>;
+	/**
+	 * Only return assets derived from this source asset (e.g. transcoded ones).
+	 */
+	sourceAssetId?: string;
+	/**
+	 * Only return assets created within this time range.
+	 */
+	createdAt?: TimeRange;
+	/**
+	 * Only return assets whose name contains this string.
+	 */
+	name?: string;
+	/**
+	 * Only return assets with this hash of the file contents, among the ones
+	 * listed in their `hash` field.
+	 */
+	hash?: { hash: string; algorithm: string };
+};
+
+/**
+ * Filters for listing tasks with {@link VodApi.listTasks}. Only the tasks
+ * matching all of the specified filters are returned.
+ */
+export type TaskFilters = {
+	/**
+	 * Only return tasks in this phase, or in any of them if a list is given.
+	 */
+	phase?: TaskPhase | TaskPhase[];
+	/**
+	 * Only return tasks of this type.
+	 */
+	type?: NonNullable<Task['type']>;
+	/**
+	 * Only return tasks that have this asset as input.
+	 */
+	inputAssetId?: string;
+	/**
+	 * Only return tasks that have this asset as output.
+	 */
+	outputAssetId?: string;
+	/**
+	 * Only return tasks created within this time range.
+	 */
+	createdAt?: TimeRange;
+};
+
+/**
+ * Options for the list methods of the {@link VodApi}.
+ */
+export type ListOptions<F> = {
+	/**
+	 * Filters to apply to the listed objects.
+	 */
+	filters?: F;
+	/**
+	 * Maximum amount of objects to return in a single page.
+	 */
+	limit?: number;
+	/**
+	 * Cursor for the page to fetch, as returned by a previous list call. The
+	 * first page is returned if omitted.
+	 */
+	cursor?: string;
+};
+
+/**
+ * A single page of objects returned by the list methods of the {@link VodApi}.
+ */
+export type ListPage<T> = {
+	/**
+	 * The objects in the current page.
+	 */
+	items: T[];
+	/**
+	 * Cursor for fetching the next page. Will be `undefined` if this is the last
+	 * page.
+	 */
+	cursor?: string;
+};
+
+const filterFieldNames: Record<string, string> = {
+	phase: 'status.phase'
+};
+
+function toListParams<F extends Record<string, any>>(opts: ListOptions<F>) {
+	const { filters = {} as F, limit, cursor } = opts;
+	const filtersList = Object.entries(filters)
+		.filter(([, value]) => value != null)
+		.map(([field, value]) => ({
+			id: filterFieldNames[field] ?? field,
+			value
+		}));
+	return {
+		limit,
+		cursor,
+		filters: filtersList.length ? JSON.stringify(filtersList) : undefined
+	};
+}
+
+// Parses the next page cursor from a `Link` header in the format:
+// <https://livepeer.com/api/asset?limit=10&cursor=abc>; rel="next"
+function parseNextCursor(linkHeader?: string) {
+	const next = linkHeader?.split(',').find(link => /rel="?next"?/.test(link));
+	const match = next?.match(/<([^>]+)>/);
+	if (!match) {
+		return undefined;
+	}
+	const query = match[1].split('?')[1] ?? '';
+	const cursor = query
+		.split('&')
+		.map(param => param.split('='))
+		.find(([key]) => key === 'cursor')?.[1];
+	return cursor ? decodeURIComponent(cursor) : undefined;
+}
 
 /**
  * This encapsulates the possible ways of authenticating with the API.
@@ -80,8 +280,31 @@ export type ApiOptions = {
 	 * prefixed with an `/api` path segment.
 	 */
 	endpoint?: string;
+	/**
+	 * Policy for automatically retrying failed requests, merged with the
+	 * defaults of 3 retries and an exponential backoff from 500ms up to 10s. See
+	 * {@link RetryPolicy} for which requests are retried. Set to `false` to
+	 * disable retries altogether.
+	 */
+	retry?: Partial<RetryPolicy> | false;
+	/**
+	 * Whether to validate the `Asset` and `Task` objects returned by the API
+	 * against their schemas at runtime. Invalid responses make the requests fail
+	 * with a {@link validation.ValidationError} including the path of the
+	 * invalid fields. Defaults to `false`.
+	 */
+	validate?: boolean;
+	/**
+	 * The HTTP transport to use for the requests. Defaults to the
+	 * {@link transport.AxiosTransport} in the browser and node.js, or to the
+	 * {@link transport.FetchTransport} in fetch-only runtimes like Cloudflare
+	 * Workers. Check the {@link transport} module for more info.
+	 */
+	transport?: Transport;
 };
 
+type ObjectKind = 'asset' | 'task';
+
 const defaultApiEndpoint = typeof window !== 'undefined' ? '' : prodApiEndpoint;
 
 /**
@@ -97,7 +320,14 @@ const defaultApiEndpoint = typeof window !== 'undefined' ? '' : prodApiEndpoint;
  * @public
  */
 export class VodApi {
-	private client: AxiosInstance;
+	/**
+	 * The HTTP transport used for the requests.
+	 */
+	readonly transport: Transport;
+	private endpoint: string;
+	private headers: Record<string, string>;
+	private retryPolicy?: RetryPolicy;
+	private validate: boolean;
 
 	/**
 	 * Creates a VodApi instance.
@@ -105,29 +335,26 @@ export class VodApi {
 	 * @param opts - Options for the API client.
 	 */
 	constructor(opts: ApiOptions = {}) {
-		const { auth, endpoint = defaultApiEndpoint } = opts;
-		this.client = axios.create({
-			baseURL: endpoint,
-			headers: {
-				Authorization: !auth
-					? ''
-					: 'apiKey' in auth
-					? `Bearer ${auth.apiKey}`
-					: 'jwt' in auth
-					? `JWT ${auth.jwt}`
-					: ''
-			}
-		});
-		this.client.interceptors.response.use(res => {
-			if (res.status >= 300) {
-				throw new Error(
-					`Error on ${res.config.method} ${res.config.url} (${
-						res.status
-					} ${res.statusText}): ${JSON.stringify(res.data)}`
-				);
-			}
-			return res;
-		});
+		const {
+			auth,
+			endpoint = defaultApiEndpoint,
+			retry,
+			validate,
+			transport
+		} = opts;
+		this.validate = validate ?? false;
+		this.retryPolicy =
+			retry === false ? undefined : { ...defaultRetryPolicy, ...retry };
+		this.transport = transport ?? defaultTransport();
+		this.endpoint = endpoint.replace(/\/+$/, '');
+		const authorization = !auth
+			? ''
+			: 'apiKey' in auth
+			? `Bearer ${auth.apiKey}`
+			: 'jwt' in auth
+			? `JWT ${auth.jwt}`
+			: '';
+		this.headers = authorization ? { Authorization: authorization } : {};
 	}
 
 	/**
@@ -139,11 +366,18 @@ export class VodApi {
 	 * for more info.
 	 *
 	 * @param id - the ID of the asset to fetch
+	 * @param signal - an optional signal to abort the request.
 	 *
 	 * @returns the asset object as returned by the API.
 	 */
-	async getAsset(id: string) {
-		return this.makeRequest<Asset>('get', `/api/asset/${id}`);
+	async getAsset(id: string, signal?: AbortSignal) {
+		const asset = await this.makeRequest<Asset>(
+			'get',
+			`/api/asset/${id}`,
+			undefined,
+			signal
+		);
+		return this.checkResponse('asset', asset);
 	}
 
 	/**
@@ -155,10 +389,155 @@ export class VodApi {
 	 * for more info.
 	 *
 	 * @param id - the ID of the task to fetch
+	 * @param signal - an optional signal to abort the request.
 	 * @returns the task object as returned by the API.
 	 */
-	async getTask(id: string) {
-		return this.makeRequest<Task>('get', `/api/task/${id}`);
+	async getTask(id: string, signal?: AbortSignal) {
+		const task = await this.makeRequest<Task>(
+			'get',
+			`/api/task/${id}`,
+			undefined,
+			signal
+		);
+		return this.checkResponse('task', task);
+	}
+
+	/**
+	 * Updates the mutable fields of an asset, currently its `name` and `meta`.
+	 *
+	 * @param id - the ID of the asset to update.
+	 * @param patch - the fields to update. Omitted fields are left unchanged.
+	 * @param signal - an optional signal to abort the request.
+	 *
+	 * @returns the updated asset object as returned by the API.
+	 */
+	async updateAsset(
+		id: string,
+		patch: Partial<Pick<Asset, 'name' | 'meta'>>,
+		signal?: AbortSignal
+	) {
+		const asset = await this.makeRequest<Asset>(
+			'patch',
+			`/api/asset/${id}`,
+			patch,
+			signal
+		);
+		return this.checkResponse('asset', asset);
+	}
+
+	/**
+	 * Deletes an asset from the API.
+	 *
+	 * @remarks
+	 * This does not affect any copies of the asset already exported to external
+	 * locations like IPFS.
+	 *
+	 * @param id - the ID of the asset to delete.
+	 * @param signal - an optional signal to abort the request.
+	 */
+	async deleteAsset(id: string, signal?: AbortSignal) {
+		await this.makeRequest<void>(
+			'delete',
+			`/api/asset/${id}`,
+			undefined,
+			signal
+		);
+	}
+
+	/**
+	 * Cancels a task that is still pending or running. The task will be moved to
+	 * the `cancelled` phase.
+	 *
+	 * @param id - the ID of the task to cancel.
+	 * @param signal - an optional signal to abort the request.
+	 */
+	async cancelTask(id: string, signal?: AbortSignal) {
+		await this.makeRequest<void>(
+			'post',
+			`/api/task/${id}/cancel`,
+			undefined,
+			signal
+		);
+	}
+
+	/**
+	 * Lists the assets from the API, one page at a time.
+	 *
+	 * @remarks
+	 * The returned `cursor` can be passed back in the `opts` to fetch the next
+	 * page. Check {@link iterateAssets} for a helper that walks all the pages.
+	 *
+	 * @param opts - the filters and pagination options for the list.
+	 * @param signal - an optional signal to abort the request.
+	 *
+	 * @returns the page of assets and the cursor for the next page, if any.
+	 */
+	async listAssets(
+		opts: ListOptions<AssetFilters> = {},
+		signal?: AbortSignal
+	) {
+		return this.listPage<Asset>('asset', opts, signal);
+	}
+
+	/**
+	 * Lists the tasks from the API, one page at a time.
+	 *
+	 * @remarks
+	 * The returned `cursor` can be passed back in the `opts` to fetch the next
+	 * page. Check {@link iterateTasks} for a helper that walks all the pages.
+	 *
+	 * @param opts - the filters and pagination options for the list.
+	 * @param signal - an optional signal to abort the request.
+	 *
+	 * @returns the page of tasks and the cursor for the next page, if any.
+	 */
+	async listTasks(opts: ListOptions<TaskFilters> = {}, signal?: AbortSignal) {
+		return this.listPage<Task>('task', opts, signal);
+	}
+
+	/**
+	 * Iterates through all the assets matching the specified filters, fetching
+	 * the pages lazily as the iteration proceeds.
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const asset of vodApi.iterateAssets({ phase: 'ready' })) {
+	 *   console.log(asset.name);
+	 * }
+	 * ```
+	 *
+	 * @param filters - the filters to apply to the listed assets.
+	 * @param pageSize - the amount of assets to fetch on each request.
+	 * @param signal - an optional signal to abort the iteration. Aborting
+	 * rejects the pending page request with an {@link AbortError}.
+	 *
+	 * @returns an async iterator of all the matching assets.
+	 */
+	iterateAssets(
+		filters?: AssetFilters,
+		pageSize?: number,
+		signal?: AbortSignal
+	) {
+		return this.iteratePages<Asset>('asset', filters, pageSize, signal);
+	}
+
+	/**
+	 * Iterates through all the tasks matching the specified filters, fetching
+	 * the pages lazily as the iteration proceeds.
+	 *
+	 * @param filters - the filters to apply to the listed tasks.
+	 * @param pageSize - the amount of tasks to fetch on each request.
+	 * @param signal - an optional signal to abort the iteration. Aborting
+	 * rejects the pending page request with an {@link AbortError}.
+	 *
+	 * @returns an async iterator of all the matching tasks.
+	 */
+	iterateTasks(
+		filters?: TaskFilters,
+		pageSize?: number,
+		signal?: AbortSignal
+	) {
+		return this.iteratePages<Task>('task', filters, pageSize, signal);
 	}
 
 	/**
@@ -178,21 +557,31 @@ export class VodApi {
 	 *
 	 * @param assetName - the name of the asset that will be created for the file
 	 * in the API.
+	 * @param signal - an optional signal to abort the request.
 	 *
 	 * @returns An object with the `url`, and created `asset` and `task`. The
 	 * `url` is the one that should be used to upload the file directly through
 	 * {@link uploadFile}. The `asset` and `task` are the ones created for the
 	 * file, which will get processed as soon as the contents are uploaded to the
-	 * `url`. Check {@link getTask} to track task progress.
+	 * `url`. Check {@link getTask} to track task progress. The `tusEndpoint`,
+	 * when available, can be used for a resumable upload of the same file
+	 * instead (check {@link upload.ResumableUpload}).
 	 */
-	async requestUploadUrl(assetName: string) {
-		return this.makeRequest<{ url: string; asset: Asset; task: Task }>(
+	async requestUploadUrl(assetName: string, signal?: AbortSignal) {
+		const res = await this.makeRequest<{
+			url: string;
+			tusEndpoint?: string;
+			asset: Asset;
+			task: Task;
+		}>(
 			'post',
 			`/api/asset/request-upload`,
 			{
 				name: assetName
-			}
+			},
+			signal
 		);
+		return this.checkCreated(res);
 	}
 
 	/**
@@ -209,10 +598,16 @@ export class VodApi {
 	 * @param content The content of the file to upload. A `File` from the browser
 	 * or a `ReadableStream` from node.js.
 	 * @param reportProgress An optional callback that will be called with the
-	 * upload progress, useful for giving some UI feedback to users. This is
-	 * currently only supported from the browser.
+	 * upload progress, useful for giving some UI feedback to users. Also
+	 * receives the detailed {@link UploadProgress} with the uploaded bytes,
+	 * throughput and ETA. In node.js, the total size is only known for
+	 * `fs.ReadStream`s, so the progress fraction stays at 0 for other streams.
 	 * @param mimeType An optional `mimeType` for the file. Defaults to
 	 * `octet-stream` and exact type will be detected automatically later.
+	 * @param signal An optional signal to abort the upload. The returned promise
+	 * is rejected with an {@link AbortError} when aborted.
+	 * @param transport The HTTP transport to use for the upload. Defaults to the
+	 * same default as for the API requests (check {@link ApiOptions.transport}).
 	 *
 	 * @returns A promise that will be completed when the upload is done. Will
 	 * throw an exception on any error. Refer back to the `asset` and `task`
@@ -222,22 +617,58 @@ export class VodApi {
 	static async uploadFile(
 		url: string,
 		content: File | NodeJS.ReadableStream,
-		reportProgress?: (progress: number) => void,
-		mimeType?: string
+		reportProgress?: UploadProgressCallback,
+		mimeType?: string,
+		signal?: AbortSignal,
+		transport: Transport = defaultTransport()
 	): Promise<void> {
 		const defaultMimeType =
 			typeof File !== 'undefined' && content instanceof File
 				? content.type
 				: 'application/octet-stream';
-		return makeRequest(fileUploadClient, 'put', url, content, {
+		const tracked = await trackUploadProgress(content, reportProgress);
+		await makeRequest(transport, {
+			method: 'put',
+			url,
+			data: tracked.content,
 			headers: {
 				contentType: mimeType || defaultMimeType
 			},
-			onUploadProgress:
-				reportProgress && (p => reportProgress(p.loaded / p.total))
+			signal,
+			onUploadProgress: tracked.onUploadProgress
 		});
 	}
 
+	/**
+	 * Creates an asset by importing the file from a remote URL, instead of
+	 * uploading the file contents directly.
+	 *
+	 * @remarks
+	 * The URL must be publicly accessible by the Livepeer API, like an HTTP CDN
+	 * or a pre-signed S3 URL. This avoids streaming the whole file through your
+	 * application when it is already stored somewhere else.
+	 *
+	 * @param url - the URL of the file to be imported.
+	 * @param name - the name of the asset that will be created for the file.
+	 * @param signal - an optional signal to abort the request.
+	 *
+	 * @returns an object with the created `asset` and `task`. The `task` can be
+	 * used to poll for the import progress (check {@link getTask}) and after it
+	 * is done the finalized `asset` can be fetched with {@link getAsset}.
+	 */
+	async importAsset(url: string, name: string, signal?: AbortSignal) {
+		const res = await this.makeRequest<{ asset: Asset; task: Task }>(
+			'post',
+			`/api/asset/import`,
+			{
+				url,
+				name
+			},
+			signal
+		);
+		return this.checkCreated(res);
+	}
+
 	/**
 	 * Requests for an asset stored in the Livepeer API to be transcoded to a
 	 * different video profile.
@@ -246,6 +677,7 @@ export class VodApi {
 	 * @param name - the name of the output asset to be created.
 	 * @param profile - descripiton of the desired video profile for the output
 	 * asset.
+	 * @param signal - an optional signal to abort the request.
 	 * @returns an object with the created `asset` and `task`. The `task` can be
 	 * used to poll for the transcoding progress (check {@link getTask}) and after
 	 * it is done the finalized `asset` can be fetched with {@link getAsset}.
@@ -253,17 +685,20 @@ export class VodApi {
 	async transcodeAsset(
 		assetId: string,
 		name: string,
-		profile: FfmpegProfile
+		profile: FfmpegProfile,
+		signal?: AbortSignal
 	) {
-		return this.makeRequest<{ asset: Asset; task: Task }>(
+		const res = await this.makeRequest<{ asset: Asset; task: Task }>(
 			'post',
 			`/api/asset/transcode`,
 			{
 				assetId,
 				name,
 				profile
-			}
+			},
+			signal
 		);
+		return this.checkCreated(res);
 	}
 
 	/**
@@ -278,18 +713,110 @@ export class VodApi {
 	 * @param id - the ID of the asset to be exported.
 	 * @param params - the export task parameters. Set `ipfs` field to export to
 	 * IPFS and the optional `nftMetadata` sub-field to customize the NFT metadata.
+	 * Set the `custom` field instead to export to a custom URL (check
+	 * {@link CustomExportParams}). Any custom `pinata` credentials for the IPFS
+	 * export are validated before sending the request.
+	 * @param signal - an optional signal to abort the request.
 	 *
 	 * @returns the export `task` object that can be used to track progress and
 	 * wait for the output (check {@link getTask}).
 	 */
-	async exportAsset(id: string, params: ExportTaskParams) {
-		return this.makeRequest<{ task: Task }>(
+	async exportAsset(
+		id: string,
+		params: ExportTaskParams,
+		signal?: AbortSignal
+	) {
+		if (params && 'ipfs' in params && params.ipfs.pinata) {
+			validatePinataCredentials(params.ipfs.pinata);
+		}
+		const res = await this.makeRequest<{ task: Task }>(
 			'post',
 			`/api/asset/${id}/export`,
-			params
+			params,
+			signal
+		);
+		this.checkResponse('task', res?.task);
+		return res;
+	}
+
+	private async listPage<T>(
+		kind: ObjectKind,
+		opts: ListOptions<Record<string, any>>,
+		signal?: AbortSignal
+	): Promise<ListPage<T>> {
+		const res = await makeRawRequest<T[]>(
+			this.transport,
+			{
+				method: 'get',
+				url: `${this.endpoint}/api/${kind}`,
+				params: toListParams(opts),
+				headers: this.headers,
+				signal
+			},
+			this.retryPolicy
 		);
+		return {
+			items: res.data.map((item, idx) =>
+				this.checkResponse(kind, item, `${kind}s[${idx}]`)
+			),
+			cursor: parseNextCursor(res.headers['link'])
+		};
+	}
+
+	private async *iteratePages<T>(
+		kind: ObjectKind,
+		filters?: Record<string, any>,
+		limit?: number,
+		signal?: AbortSignal
+	) {
+		let cursor: string | undefined;
+		do {
+			const page = await this.listPage<T>(
+				kind,
+				{
+					filters,
+					limit,
+					cursor
+				},
+				signal
+			);
+			yield* page.items;
+			cursor = page.cursor;
+		} while (cursor);
+	}
+
+	private checkResponse<T>(kind: ObjectKind, value: T, path?: string): T {
+		if (!this.validate) {
+			return value;
+		}
+		const validated =
+			kind === 'asset'
+				? validateAsset(value, path)
+				: validateTask(value, path);
+		return validated as unknown as T;
+	}
+
+	private checkCreated<T extends { asset: Asset; task: Task }>(res: T) {
+		this.checkResponse('asset', res?.asset);
+		this.checkResponse('task', res?.task);
+		return res;
 	}
 
-	private makeRequest = <T>(method: Method, url: string, data?: any) =>
-		makeRequest<T>(this.client, method, url, data);
+	private makeRequest = <T>(
+		method: string,
+		path: string,
+		data?: any,
+		signal?: AbortSignal
+	) =>
+		makeRequest<T>(
+			this.transport,
+			{
+				method,
+				url: `${this.endpoint}${path}`,
+				headers: this.headers,
+				data,
+				signal
+			},
+			this.retryPolicy
+		);
 }
@@ -5,7 +5,14 @@ import inquirer from 'inquirer';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 
-import { prodApiEndpoint } from '../api';
+import {
+	prodApiEndpoint,
+	PinataCredentials,
+	validatePinataCredentials
+} from '../api';
+import { defaultNftImage, parseNftMetadata } from '../metadata';
+import { FileCheckpointStore } from '../pipeline';
+import { resolveNormalizeTargets } from '../targets';
 
 type Camel<T extends string> = T extends `${infer Left}-${infer Right}`
 	? Camel<`${Left}${Capitalize<Right>}`>
@@ -19,8 +26,13 @@ type UnboxPromise<T> = T extends Promise<infer U> ? U : never;
 
 type RawArgs = UnboxPromise<ReturnType<typeof parseRawArgs>>;
 
+// options without a default value are kept optional
+type OptionalArgs = 'poster-time' | 'posterTime';
+
 export type CliArgs = CamelKeys<{
-	[K in keyof RawArgs]: Exclude<RawArgs[K], undefined>;
+	[K in keyof RawArgs]: K extends OptionalArgs
+		? RawArgs[K]
+		: Exclude<RawArgs[K], undefined>;
 }>;
 
 function parseRawArgs(argv?: string | readonly string[]) {
@@ -45,6 +57,76 @@ function parseRawArgs(argv?: string | readonly string[]) {
 				type: 'string',
 				default: '{}'
 			},
+			'export-url': {
+				describe:
+					'export the video to this custom URL instead of IPFS (no NFT metadata is created)',
+				type: 'string',
+				default: ''
+			},
+			'export-method': {
+				describe: 'HTTP method to use when exporting to a custom URL',
+				type: 'string',
+				default: 'PUT'
+			},
+			'export-headers': {
+				describe:
+					'JSON object with HTTP headers to add when exporting to a custom URL',
+				type: 'string',
+				default: '{}'
+			},
+			'pinata-jwt': {
+				describe:
+					'JWT for pinning the IPFS files in your own Piñata account (env: LP_PINATA_JWT)',
+				type: 'string',
+				default: ''
+			},
+			'pinata-api-key': {
+				describe:
+					'API key for pinning the IPFS files in your own Piñata account (env: LP_PINATA_API_KEY)',
+				type: 'string',
+				default: ''
+			},
+			'pinata-api-secret': {
+				describe:
+					'API secret for pinning the IPFS files in your own Piñata account (env: LP_PINATA_API_SECRET)',
+				type: 'string',
+				default: ''
+			},
+			'force-upload': {
+				describe:
+					'upload the file even if it was already uploaded before, instead of reusing the existing asset',
+				type: 'boolean',
+				default: false
+			},
+			target: {
+				describe:
+					'comma-separated NFT marketplaces to normalize the video for (opensea, rarible, foundation, zora)',
+				type: 'string',
+				default: 'opensea'
+			},
+			'kubo-api-url': {
+				describe:
+					'URL of the RPC API of your own Kubo IPFS node, to pin the video and the NFT metadata in it',
+				type: 'string',
+				default: ''
+			},
+			poster: {
+				describe:
+					'with --kubo-api-url, pin a frame of the video as the NFT image, unless an image is set in the metadata (disable with --no-poster)',
+				type: 'boolean',
+				default: true
+			},
+			'poster-time': {
+				describe:
+					'time in seconds of the video frame to use as the NFT image, instead of a representative one',
+				type: 'number'
+			},
+			resume: {
+				describe:
+					'checkpoint file of an interrupted run to resume from, which is printed when a run fails',
+				type: 'string',
+				default: ''
+			},
 			'api-endpoint': {
 				describe: 'the endpoint to use for the Livepeer API',
 				type: 'string',
@@ -112,7 +194,7 @@ async function promptMissing(args: RawArgs): Promise<CliArgs> {
 			})
 			.then(ans => ans.assetName);
 	}
-	if (nftMetadata === '{}') {
+	if (nftMetadata === '{}' && !args.exportUrl && !args.resume) {
 		const { shouldEdit } = await inquirer.prompt({
 			type: 'confirm',
 			name: 'shouldEdit',
@@ -120,9 +202,15 @@ async function promptMissing(args: RawArgs): Promise<CliArgs> {
 			default: false
 		});
 		if (shouldEdit) {
+			const usePoster = args.poster && !!args.kuboApiUrl;
 			console.log(
 				' - The `animation_url` and `properties.video` fields will be populated with the exported video URL.'
 			);
+			if (usePoster) {
+				console.log(
+					' - The `image` field will be a poster from a frame of the video, unless you set it.'
+				);
+			}
 			console.log(' - Set any field to `null` to delete it.');
 			nftMetadata = await inquirer
 				.prompt({
@@ -135,7 +223,7 @@ async function promptMissing(args: RawArgs): Promise<CliArgs> {
 							description: `Livepeer video from asset ${JSON.stringify(
 								assetName
 							)}`,
-							image: `ipfs://bafkreidmlgpjoxgvefhid2xjyqjnpmjjmq47yyrcm6ifvoovclty7sm4wm`,
+							...(!usePoster && { image: defaultNftImage }),
 							properties: {}
 						},
 						null,
@@ -162,10 +250,55 @@ async function promptMissing(args: RawArgs): Promise<CliArgs> {
 	};
 }
 
+/**
+ * Parses the comma-separated list of normalization targets from the CLI args.
+ */
+export function parseTargets(target: string) {
+	return target
+		.split(',')
+		.map(t => t.trim())
+		.filter(t => t);
+}
+
+/**
+ * Builds the custom Piñata credentials from the CLI args, if any was provided.
+ * Throws an error if the provided credentials are incomplete.
+ */
+export function getPinataCredentials(
+	args: Pick<RawArgs, 'pinataJwt' | 'pinataApiKey' | 'pinataApiSecret'>
+): PinataCredentials | undefined {
+	const {
+		pinataJwt: jwt,
+		pinataApiKey: apiKey,
+		pinataApiSecret: apiSecret
+	} = args;
+	if (!jwt && !apiKey && !apiSecret) {
+		return undefined;
+	}
+	const pinata = (jwt ? { jwt } : { apiKey, apiSecret }) as PinataCredentials;
+	validatePinataCredentials(pinata);
+	return pinata;
+}
+
 export default async function parseCli(
 	argv?: string | readonly string[]
 ): Promise<CliArgs> {
 	const args = await parseRawArgs(argv);
+	if (args.resume) {
+		const state = await new FileCheckpointStore(args.resume).load();
+		if (!state) {
+			throw new Error(`Checkpoint file ${args.resume} does not exist`);
+		}
+		const { file, name, nftMetadata } = state.args;
+		args.filename ||= file;
+		args.assetName ||= name;
+		if (nftMetadata && args.nftMetadata === '{}') {
+			args.nftMetadata =
+				typeof nftMetadata === 'string'
+					? nftMetadata
+					: JSON.stringify(nftMetadata);
+		}
+	}
 	if (args.filename && !fs.existsSync(args.filename)) {
 		throw new Error(`File ${args.filename} does not exist`);
 	}
@@ -174,13 +307,36 @@ export default async function parseCli(
 	}
 	try {
 		if (args.nftMetadata != '{}') {
-			const metadata = JSON.parse(args.nftMetadata);
+			const metadata = parseNftMetadata(args.nftMetadata);
 			console.log(
 				`Using metadata:\n${JSON.stringify(metadata, null, 2)}`
 			);
 		}
 	} catch (e) {
-		throw new Error(`Invalid JSON in nft-metadata: ${e}`);
+		throw new Error(`Invalid nft-metadata: ${e}`);
+	}
+	try {
+		const headers = JSON.parse(args.exportHeaders);
+		if (typeof headers !== 'object' || Array.isArray(headers)) {
+			throw new Error('must be a JSON object');
+		}
+	} catch (e) {
+		throw new Error(`Invalid export-headers: ${e}`);
+	}
+	try {
+		resolveNormalizeTargets(parseTargets(args.target));
+	} catch (e) {
+		throw new Error(`Invalid target: ${e}`);
+	}
+	if (args.posterTime !== undefined && !args.kuboApiUrl) {
+		throw new Error('Invalid poster-time: it requires kubo-api-url');
+	}
+	if (
+		args.posterTime !== undefined &&
+		!(Number.isFinite(args.posterTime) && args.posterTime >= 0)
+	) {
+		throw new Error(`Invalid poster-time: ${args.posterTime}`);
 	}
+	getPinataCredentials(args);
 	return promptMissing(args);
 }
@@ -1,27 +1,68 @@
+import * as os from 'os';
+import * as path from 'path';
+
 import inquirer from 'inquirer';
 
-import parseCli from './args';
-import { minter, Asset } from '..';
+import parseCli, { CliArgs, getPinataCredentials, parseTargets } from './args';
+import { api, minter, pinning, pipeline, targets } from '..';
 
-async function videoNft() {
-	const args = await parseCli();
+async function videoNft(args: CliArgs, store: pipeline.CheckpointStore) {
 	const { apiKey, apiEndpoint: endpoint } = args;
 	const uploader = new minter.Uploader();
 	const sdk = new minter.Api({
 		auth: { apiKey },
-		endpoint
+		endpoint,
+		pinner: args.kuboApiUrl
+			? new pinning.KuboPinner({ url: args.kuboApiUrl })
+			: undefined,
+		poster: !!args.kuboApiUrl && args.poster && { time: args.posterTime },
+		deduplicate: true,
+		onDuplicateAsset: asset =>
+			console.log(
+				`This file was already uploaded to asset ${asset.id}. Reusing it instead.`
+			)
 	});
+	const state = (await store.load()) ?? {
+		name: args.assetName,
+		file: args.filename,
+		forceUpload: args.forceUpload,
+		normalizeTarget: parseTargets(args.target),
+		nftMetadata: args.nftMetadata
+	};
+	const mint = new pipeline.MintPipeline(sdk, uploader, state, store);
 
-	let asset = await uploader.useFile(args.filename, file => {
-		printStep('Uploading file...');
-		return sdk.createAsset(args.assetName, file, printProgress);
-	});
-	asset = await maybeTranscode(sdk, asset);
+	if (!mint.state.upload?.completed) {
+		printStep(
+			mint.state.upload ? 'Processing file...' : 'Uploading file...'
+		);
+	}
+	await mint.createAsset(undefined, printProgress);
+	const asset = await maybeTranscode(sdk, mint);
 
+	if (args.exportUrl) {
+		printStep(`Starting export to ${args.exportUrl}...`);
+		const { url, method } = await mint.exportToUrl(
+			{
+				url: args.exportUrl,
+				method: args.exportMethod,
+				headers: JSON.parse(args.exportHeaders)
+			},
+			printProgress
+		);
+		console.log(`Export successful! Video sent with ${method} to ${url}`);
+		return;
+	}
+
+	if (!mint.state.export) {
+		const overrides = await sdk.prepareNftMetadata(asset, args.nftMetadata);
+		const metadata = await sdk.previewNftMetadata(asset, overrides);
+		console.log(
+			`NFT metadata to export:\n${JSON.stringify(metadata, null, 2)}`
+		);
+	}
 	printStep('Starting export...');
-	let ipfs = await sdk.exportToIPFS(
-		asset.id,
-		args.nftMetadata,
+	let ipfs = await mint.exportToIPFS(
+		getPinataCredentials(args),
 		printProgress
 	);
 	console.log(
@@ -34,25 +75,61 @@ async function videoNft() {
 	);
 }
 
-function printProgress(progress: number) {
-	console.log(` - progress: ${100 * progress}%`);
+function printProgress(progress: number, upload?: api.UploadProgress) {
+	if (!upload) {
+		console.log(` - progress: ${100 * progress}%`);
+		return;
+	}
+	const { bytes, total, rate, eta } = upload;
+	const percent = total ? ` ${((100 * bytes) / total).toFixed(1)}%` : '';
+	const size = total
+		? `${formatBytes(bytes)} / ${formatBytes(total)}`
+		: formatBytes(bytes);
+	const remaining = eta != null ? `, ETA ${Math.ceil(eta)}s` : '';
+	console.log(
+		` - uploaded:${percent} (${size}, ${formatBytes(rate)}/s${remaining})`
+	);
 }
 
-async function maybeTranscode(sdk: minter.Api, asset: Asset) {
-	const { possible, desiredProfile } = sdk.checkNftNormalize(asset);
+function formatBytes(bytes: number) {
+	const units = ['B', 'KB', 'MB', 'GB'];
+	let unit = 0;
+	while (bytes >= 1024 && unit < units.length - 1) {
+		bytes /= 1024;
+		unit++;
+	}
+	return `${bytes.toFixed(unit ? 1 : 0)} ${units[unit]}`;
+}
+
+async function maybeTranscode(sdk: minter.Api, mint: pipeline.MintPipeline) {
+	if (mint.state.normalize) {
+		// already decided on a previous run, only wait for the transcode if any
+		return await mint.nftNormalize(printProgress);
+	}
+	const asset = await mint.createAsset();
+	const { normalizeTarget } = mint.state.args;
+	const { possible, desiredProfile, violations } = sdk.checkNftNormalize(
+		asset,
+		normalizeTarget
+	);
+	const problems = violations.map(v => ` - ${v.message}`).join('\n');
 	if (!possible || !desiredProfile) {
 		if (!possible) {
 			console.error(
-				`Warning: Asset is larger than OpenSea file limit and can't be transcoded down since it's too large. ` +
+				`Warning: Asset does not meet the marketplace requirements and can't be transcoded to meet them:\n${problems}\n` +
 					`It will still be stored in IPFS and referenced in the NFT metadata, so a proper application is still able to play it back. ` +
 					`For more information check http://bit.ly/opensea-file-limit`
 			);
 		}
-		return asset;
+		return await mint.skipNormalize();
 	}
 
+	const names = targets
+		.resolveNormalizeTargets(normalizeTarget)
+		.map(t => t.name)
+		.join(', ');
 	console.log(
-		`File is too big for OpenSea 100MB limit (learn more at http://bit.ly/opensea-file-limit).`
+		`File does not meet the requirements of ${names} (learn more at http://bit.ly/opensea-file-limit):\n${problems}`
 	);
 	const { action } = await inquirer.prompt({
 		type: 'list',
@@ -61,7 +138,9 @@ async function maybeTranscode(sdk: minter.Api, asset: Asset) {
 		choices: [
 			{
 				value: 'transcode',
-				name: 'Transcode it to a lower quality so OpenSea is able to preview'
+				name: `Transcode it so ${names} ${
+					names.includes(',') ? 'are' : 'is'
+				} able to preview`
 			},
 			{
 				value: 'ignore',
@@ -70,20 +149,42 @@ async function maybeTranscode(sdk: minter.Api, asset: Asset) {
 		]
 	});
 	if (action === 'ignore') {
-		return asset;
+		return await mint.skipNormalize();
 	}
 	printStep(
 		`Transcoding asset to ${desiredProfile.name} at ${Math.round(
 			desiredProfile.bitrate / 1024
 		)} kbps bitrate`
 	);
-	return await sdk.nftNormalize(asset, printProgress);
+	return await mint.nftNormalize(printProgress);
 }
 
 let currStep = 0;
 const printStep = (msg: string) => console.log(`${++currStep}. ${msg}`);
 
-videoNft().catch(err => {
+async function main() {
+	const args = await parseCli();
+	const checkpoint =
+		args.resume ||
+		path.join(os.tmpdir(), `video-nft-checkpoint-${Date.now()}.json`);
+	const store = new pipeline.FileCheckpointStore(checkpoint);
+	if (!args.resume) {
+		console.log(`Saving progress checkpoints to ${checkpoint}`);
+	}
+	try {
+		await videoNft(args, store);
+	} catch (err) {
+		if (await store.load()) {
+			console.error(
+				`Progress was saved. Run again with --resume ${checkpoint} to continue.`
+			);
+		}
+		throw err;
+	}
+	await store.clear();
+}
+
+main().catch(err => {
 	console.error(err);
 	process.exit(1);
 });
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ApiEmulator } from './emulator';
+import { Api } from './minter';
+
+describe('ApiEmulator', () => {
+	let emulator: ApiEmulator;
+	let api: Api;
+	let tmpDir: string;
+
+	beforeAll(async () => {
+		emulator = new ApiEmulator({ timings: { pending: 10, running: 50 } });
+		api = new Api({
+			endpoint: await emulator.start(),
+			polling: { interval: 20 }
+		});
+		tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'videonft-'));
+	});
+
+	afterAll(async () => {
+		await emulator.stop();
+		await fs.promises.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it('creates, uploads, exports and waits for an asset', async () => {
+		const filePath = path.join(tmpDir, 'video.mp4');
+		await fs.promises.writeFile(filePath, Buffer.alloc(1024, 1));
+
+		const asset = await api.createAsset(
+			'My NFT',
+			fs.createReadStream(filePath)
+		);
+		expect(asset.status?.phase).toBe('ready');
+		expect(asset.size).toBe(1024);
+
+		const { task } = await api.vod.exportAsset(asset.id, {
+			ipfs: { nftMetadata: { name: 'Custom name' } }
+		});
+		const exported = await api.waitTask(task);
+		expect(exported.status?.phase).toBe('completed');
+
+		const ipfs = exported.output?.export?.ipfs;
+		expect(ipfs?.videoFileUrl).toBe(`ipfs://${ipfs?.videoFileCid}`);
+		const metadata = JSON.parse(
+			emulator.ipfs.get(ipfs?.nftMetadataCid ?? '')?.toString() ?? '{}'
+		);
+		expect(metadata).toMatchObject({
+			name: 'Custom name',
+			animation_url: ipfs?.videoFileUrl
+		});
+	});
+});
@@ -0,0 +1,1034 @@
+/**
+ * This module provides a local emulator of the Livepeer VOD API, keeping all
+ * the state in memory. It is meant for running integration tests of your
+ * application offline, without hitting the production API.
+ *
+ * @remarks
+ * This module is only supported in node.js, so it is not included in the main
+ * entry point of the SDK. Import it from `@livepeer/video-nft/emulator`
+ * instead. Start an {@link ApiEmulator} and pass its `endpoint` as the
+ * {@link api.ApiOptions} `endpoint` to use it with any of the SDK clients, like
+ * the {@link minter.Api} or {@link minter.FullMinter}.
+ *
+ * @remarks
+ * Tasks go through the `pending`, `running` and `completed` phases with
+ * configurable timings, and failures can be injected for any task. No actual
+ * video processing is made: the video metadata of the assets is generated from
+ * the uploaded file size and the configured source video properties.
+ *
+ * @example
+ * ```ts
+ * const emulator = new ApiEmulator();
+ * const endpoint = await emulator.start();
+ * const api = new minter.Api({ endpoint });
+ * // ... run your tests
+ * await emulator.stop();
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import axios from 'axios';
+
+import { isTaskFinished } from './api';
+import { defaultNftMetadata, mergeNftMetadata } from './metadata';
+import { Asset, FfmpegProfile, Task } from './types/schema';
+import { signWebhook } from './webhook';
+
+type TaskType = NonNullable<Task['type']>;
+
+type VideoTrack = NonNullable<
+	NonNullable<Asset['videoSpec']>['tracks']
+>[number];
+
+/**
+ * Properties of the source videos uploaded or imported to the emulator, used
+ * to generate the asset `videoSpec` since no actual probing is made.
+ */
+export type EmulatedSourceVideo = {
+	/**
+	 * Duration of the videos in seconds. Defaults to 60.
+	 */
+	duration: number;
+	width: number;
+	height: number;
+	fps: number;
+	/**
+	 * Video codec. Defaults to `h264`.
+	 */
+	codec: string;
+	/**
+	 * Video pixel format. Defaults to `yuv420p`.
+	 */
+	pixelFormat: string;
+	/**
+	 * Bitrate of the audio track in bits per second. Defaults to 128 kbps. Set
+	 * to 0 to generate videos without an audio track.
+	 */
+	audioBitrate: number;
+	/**
+	 * Size in bytes of the assets imported from a URL, since the file is not
+	 * actually downloaded. Defaults to 50 MB.
+	 */
+	importedSize: number;
+};
+
+/**
+ * Options for creating an {@link ApiEmulator}.
+ */
+export type ApiEmulatorOptions = {
+	/**
+	 * Port to listen on. Defaults to a random available port.
+	 */
+	port?: number;
+	/**
+	 * Host to listen on. Defaults to `localhost`.
+	 */
+	host?: string;
+	/**
+	 * If set, requests must be authenticated with this API key.
+	 */
+	apiKey?: string;
+	/**
+	 * Time (in milliseconds) that tasks stay in each phase. The running phase
+	 * reports progress in `progressSteps` evenly spaced updates.
+	 */
+	timings?: {
+		pending?: number;
+		running?: number;
+		progressSteps?: number;
+	};
+	/**
+	 * Properties of the emulated source videos. See
+	 * {@link EmulatedSourceVideo}.
+	 */
+	sourceVideo?: Partial<EmulatedSourceVideo>;
+	/**
+	 * Hook for injecting failures in tasks. Called when a task starts running
+	 * and should return an error message for the task to fail with it, or
+	 * nothing for it to succeed. Check also {@link ApiEmulator.failNextTask}.
+	 */
+	failTask?: (task: Task) => string | undefined | void;
+	/**
+	 * Optional webhook to call with the task and asset events, signed with the
+	 * given secret. Can be used with a {@link webhook.WebhookReceiver}.
+	 * Deliveries are best-effort and not retried, check `onWebhookError`.
+	 */
+	webhook?: {
+		url: string;
+		secret: string;
+	};
+	/**
+	 * Called when a webhook could not be delivered, with the error and the
+	 * event of the webhook. Failures are ignored if not provided.
+	 */
+	onWebhookError?: (error: unknown, event: string) => void;
+};
+
+const defaultSourceVideo: EmulatedSourceVideo = {
+	duration: 60,
+	width: 1920,
+	height: 1080,
+	fps: 30,
+	codec: 'h264',
+	pixelFormat: 'yuv420p',
+	audioBitrate: 128_000,
+	importedSize: 50_000_000
+};
+
+class HttpError extends Error {
+	constructor(public status: number, message: string) {
+		super(message);
+	}
+}
+
+type Upload = {
+	assetId: string;
+	taskId: string;
+	size?: number;
+	offset: number;
+	md5: crypto.Hash;
+	sha256: crypto.Hash;
+};
+
+type Route = {
+	method: string;
+	pattern: RegExp;
+	handle: (
+		match: RegExpMatchArray,
+		req: http.IncomingMessage,
+		url: URL
+	) => Promise<RouteResult> | RouteResult;
+};
+
+type RouteResult = {
+	status?: number;
+	body?: any;
+	headers?: Record<string, string>;
+	/**
+	 * Raw content to send instead of a JSON `body`.
+	 */
+	content?: Buffer;
+};
+
+/**
+ * Local in-memory emulator of the Livepeer VOD API.
+ *
+ * @remarks
+ * Implements the following APIs, plus the direct and resumable (tus) upload
+ * URLs returned by the request upload API:
+ *  * `POST /api/asset/request-upload`
+ *  * `POST /api/asset/import`
+ *  * `POST /api/asset/transcode`
+ *  * `POST /api/asset/:id/export`
+ *  * `GET /api/asset`, `GET /api/asset/:id`
+ *  * `PATCH /api/asset/:id`, `DELETE /api/asset/:id`
+ *  * `GET /api/task`, `GET /api/task/:id`
+ *  * `POST /api/task/:id/cancel`
+ *
+ * @remarks
+ * It also emulates an IPFS node, so it can be used with a
+ * {@link pinning.KuboPinner} with the emulator `endpoint` as its `url`. It
+ * implements the `POST /api/v0/add` and `POST /api/v0/pin/add` Kubo RPC APIs,
+ * which do not require the API key, and serves the added files and the NFT
+ * metadata of the exports in `GET /ipfs/:cid`. The CIDs are not real IPFS
+ * CIDs, but they are also derived from the contents.
+ *
+ * @remarks
+ * The posters of the assets are served in `GET /asset/:playbackId/thumbnail.jpg`
+ * as fake JPEG bytes, which depend on the playback ID and the `time` query.
+ */
+export class ApiEmulator {
+	/**
+	 * All the assets created in the emulator, by ID.
+	 */
+	readonly assets = new Map<string, Asset>();
+	/**
+	 * All the tasks created in the emulator, by ID.
+	 */
+	readonly tasks = new Map<string, Task>();
+	/**
+	 * The contents of all the files in the emulated IPFS node, by CID.
+	 */
+	readonly ipfs = new Map<string, Buffer>();
+	/**
+	 * The CIDs pinned in the emulated IPFS node.
+	 */
+	readonly pins = new Set<string>();
+
+	private server?: http.Server;
+	private baseUrl = '';
+	private uploads = new Map<string, Upload>();
+	private timers = new Map<string, NodeJS.Timeout[]>();
+	private pendingFailures: { type?: TaskType; message: string }[] = [];
+	private routes: Route[];
+	private sourceVideo: EmulatedSourceVideo;
+
+	/**
+	 * Creates a new `ApiEmulator`. It only starts listening when {@link start}
+	 * is called.
+	 *
+	 * @param opts Options for the emulator.
+	 */
+	constructor(private opts: ApiEmulatorOptions = {}) {
+		this.sourceVideo = { ...defaultSourceVideo, ...opts.sourceVideo };
+		this.routes = this.createRoutes();
+	}
+
+	/**
+	 * The endpoint of the emulator, to be used as the `endpoint` in the
+	 * {@link api.ApiOptions}. Only available after {@link start} is called.
+	 */
+	get endpoint() {
+		return this.baseUrl;
+	}
+
+	/**
+	 * Starts the emulator HTTP server.
+	 *
+	 * @returns The endpoint on which the emulator is listening.
+	 */
+	async start() {
+		const { port = 0, host = 'localhost' } = this.opts;
+		const server = http.createServer((req, res) => this.handle(req, res));
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(port, host, resolve);
+		});
+		const address = server.address() as AddressInfo;
+		this.server = server;
+		this.baseUrl = `http://${host}:${address.port}`;
+		return this.baseUrl;
+	}
+
+	/**
+	 * Stops the emulator HTTP server and all the running tasks.
+	 */
+	async stop() {
+		for (const timers of this.timers.values()) {
+			timers.forEach(clearTimeout);
+		}
+		this.timers.clear();
+		const { server } = this;
+		this.server = undefined;
+		if (server) {
+			await new Promise<void>((resolve, reject) =>
+				server.close(err => (err ? reject(err) : resolve()))
+			);
+		}
+	}
+
+	/**
+	 * Makes the next task that starts running fail with the given message.
+	 *
+	 * @param message The error message of the failed task.
+	 *
+	 * @param type Only fail the next task of this type.
+	 */
+	failNextTask(message: string, type?: TaskType) {
+		this.pendingFailures.push({ type, message });
+	}
+
+	private createRoutes(): Route[] {
+		const id = '([^/]+)';
+		const route = (
+			method: string,
+			path: string,
+			handle: Route['handle']
+		): Route => ({ method, pattern: new RegExp(`^${path}$`), handle });
+		return [
+			route('POST', '/api/asset/request-upload', (_, req) =>
+				this.requestUpload(req)
+			),
+			route('POST', '/api/asset/import', (_, req) =>
+				this.importAsset(req)
+			),
+			route('POST', '/api/asset/transcode', (_, req) =>
+				this.transcodeAsset(req)
+			),
+			route('GET', '/api/asset', (_, __, url) =>
+				this.list(this.assets, url)
+			),
+			route('GET', `/api/asset/${id}`, ([, assetId]) => ({
+				body: this.getAsset(assetId)
+			})),
+			route('PATCH', `/api/asset/${id}`, ([, assetId], req) =>
+				this.updateAsset(assetId, req)
+			),
+			route('DELETE', `/api/asset/${id}`, ([, assetId]) =>
+				this.deleteAsset(assetId)
+			),
+			route('POST', `/api/asset/${id}/export`, ([, assetId], req) =>
+				this.exportAsset(assetId, req)
+			),
+			route('GET', '/api/task', (_, __, url) =>
+				this.list(this.tasks, url)
+			),
+			route('GET', `/api/task/${id}`, ([, taskId]) => ({
+				body: this.getTask(taskId)
+			})),
+			route('POST', `/api/task/${id}/cancel`, ([, taskId]) =>
+				this.cancelTask(taskId)
+			),
+			route('PUT', `/upload/${id}`, ([, token], req) =>
+				this.directUpload(token, req)
+			),
+			route('POST', `/upload/${id}/tus`, ([, token], req) =>
+				this.tusCreate(token, req)
+			),
+			route('HEAD', `/upload/${id}/tus/upload`, ([, token]) =>
+				this.tusOffset(token)
+			),
+			route('PATCH', `/upload/${id}/tus/upload`, ([, token], req) =>
+				this.tusPatch(token, req)
+			),
+			route('POST', '/api/v0/add', (_, req, url) =>
+				this.ipfsAdd(req, url)
+			),
+			route('POST', '/api/v0/pin/add', (_, __, url) => this.ipfsPin(url)),
+			route('GET', `/ipfs/${id}`, ([, cid]) => this.ipfsGet(cid)),
+			route(
+				'GET',
+				`/asset/${id}/thumbnail.jpg`,
+				([, playbackId], _, url) => this.getThumbnail(playbackId, url)
+			)
+		];
+	}
+
+	private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+		const url = new URL(req.url ?? '/', this.baseUrl);
+		let result: RouteResult;
+		try {
+			const route = this.routes.find(
+				r => r.method === req.method && r.pattern.test(url.pathname)
+			);
+			if (!route) {
+				throw new HttpError(404, 'not found');
+			}
+			const isKubo = url.pathname.startsWith('/api/v0/');
+			if (url.pathname.startsWith('/api/') && !isKubo) {
+				this.authenticate(req);
+			}
+			const match = url.pathname.match(route.pattern) ?? [];
+			result = await route.handle(match, req, url);
+		} catch (err: any) {
+			const status = err instanceof HttpError ? err.status : 500;
+			result = { status, body: { errors: [err.message] } };
+		}
+		const { status = 200, body, headers, content } = result;
+		if (content) {
+			res.writeHead(status, headers);
+			res.end(content);
+			return;
+		}
+		res.writeHead(status, {
+			...headers,
+			...(body !== undefined && { 'Content-Type': 'application/json' })
+		});
+		res.end(body !== undefined ? JSON.stringify(body) : undefined);
+	}
+
+	private authenticate(req: http.IncomingMessage) {
+		const { apiKey } = this.opts;
+		if (apiKey && req.headers.authorization !== `Bearer ${apiKey}`) {
+			throw new HttpError(401, 'invalid API key');
+		}
+	}
+
+	private async requestUpload(req: http.IncomingMessage) {
+		const { name } = await readJson(req);
+		const asset = this.createAsset(name);
+		const task = this.createTask('import', {
+			outputAssetId: asset.id,
+			params: { import: { uploadedObjectKey: `${asset.id}/source` } }
+		});
+		const token = crypto.randomUUID();
+		this.uploads.set(token, {
+			assetId: asset.id,
+			taskId: task.id,
+			offset: 0,
+			md5: crypto.createHash('md5'),
+			sha256: crypto.createHash('sha256')
+		});
+		return {
+			body: {
+				url: `${this.baseUrl}/upload/${token}`,
+				tusEndpoint: `${this.baseUrl}/upload/${token}/tus`,
+				asset,
+				task
+			}
+		};
+	}
+
+	private async importAsset(req: http.IncomingMessage) {
+		const { url, name } = await readJson(req);
+		if (!url || !name) {
+			throw new HttpError(422, 'url and name are required');
+		}
+		const asset = this.createAsset(name);
+		const task = this.createTask('import', {
+			outputAssetId: asset.id,
+			params: { import: { url } }
+		});
+		const hash = crypto.createHash('sha256').update(url).digest('hex');
+		this.runTask(task, () => {
+			this.finishImport(asset, this.sourceVideo.importedSize, [
+				{ hash, algorithm: 'sha256' }
+			]);
+		});
+		return { status: 201, body: { asset, task } };
+	}
+
+	private async transcodeAsset(req: http.IncomingMessage) {
+		const { assetId, name, profile } = await readJson(req);
+		const input = this.getAsset(assetId);
+		if (input.status?.phase !== 'ready') {
+			throw new HttpError(422, 'asset is not ready');
+		}
+		const asset = this.createAsset(name, input.sourceAssetId ?? input.id);
+		const task = this.createTask('transcode', {
+			inputAssetId: input.id,
+			outputAssetId: asset.id,
+			params: { transcode: { profile } }
+		});
+		this.runTask(task, () => {
+			const spec = transcodedSpec(input, profile);
+			const size = Math.round(
+				((spec.bitrate ?? 0) * (spec.duration ?? 0)) / 8
+			);
+			this.updateAssetState(asset.id, {
+				size,
+				videoSpec: spec,
+				hash: fakeHashes(`${asset.id}:${size}`)
+			});
+			this.setAssetPhase(asset.id, 'ready');
+			task.output = {
+				transcode: {
+					asset: {
+						videoFilePath: `${asset.id}/video`,
+						assetSpec: {
+							...this.getAsset(asset.id),
+							status: 'ready'
+						}
+					}
+				}
+			};
+		});
+		return { status: 201, body: { asset, task } };
+	}
+
+	private async exportAsset(assetId: string, req: http.IncomingMessage) {
+		const params = await readJson(req);
+		const asset = this.getAsset(assetId);
+		if (!params.ipfs && !params.custom) {
+			throw new HttpError(422, 'must export to ipfs or custom');
+		}
+		const task = this.createTask('export', {
+			inputAssetId: asset.id,
+			params: { export: params }
+		});
+		this.runTask(task, () => {
+			if (!params.ipfs) {
+				task.output = { export: {} };
+				return;
+			}
+			const videoFileCid = fakeCid(`video:${asset.id}`);
+			const metadata = mergeNftMetadata(
+				defaultNftMetadata(asset, `ipfs://${videoFileCid}`),
+				params.ipfs.nftMetadata
+			);
+			const nftMetadataCid = this.addToIpfs(
+				Buffer.from(JSON.stringify(metadata))
+			);
+			const ipfs = {
+				videoFileCid,
+				videoFileUrl: `ipfs://${videoFileCid}`,
+				videoFileGatewayUrl: `${this.baseUrl}/ipfs/${videoFileCid}`,
+				nftMetadataCid,
+				nftMetadataUrl: `ipfs://${nftMetadataCid}`,
+				nftMetadataGatewayUrl: `${this.baseUrl}/ipfs/${nftMetadataCid}`
+			};
+			task.output = { export: { ipfs } };
+			const stored = this.getAsset(asset.id);
+			this.updateAssetState(asset.id, {
+				status: {
+					...stored.status!,
+					storage: {
+						ipfs: { taskIds: { last: task.id }, data: ipfs }
+					}
+				}
+			});
+		});
+		return { status: 201, body: { task } };
+	}
+
+	private async updateAsset(assetId: string, req: http.IncomingMessage) {
+		const { name, meta } = await readJson(req);
+		this.getAsset(assetId);
+		return {
+			body: this.updateAssetState(assetId, {
+				...(name !== undefined && { name }),
+				...(meta !== undefined && { meta })
+			})
+		};
+	}
+
+	private deleteAsset(assetId: string) {
+		this.getAsset(assetId);
+		this.updateAssetState(assetId, { deleted: true });
+		return { status: 204 };
+	}
+
+	private cancelTask(taskId: string) {
+		const task = this.getTask(taskId);
+		if (isTaskFinished(task)) {
+			throw new HttpError(400, `task is already ${task.status?.phase}`);
+		}
+		this.clearTimers(task.id);
+		this.setTaskStatus(task, { phase: 'cancelled' });
+		return { status: 204 };
+	}
+
+	private async directUpload(token: string, req: http.IncomingMessage) {
+		const upload = this.getUpload(token);
+		if (upload.offset > 0) {
+			throw new HttpError(409, 'file already uploaded');
+		}
+		await this.consumeUpload(upload, req);
+		this.startImport(upload);
+		return {};
+	}
+
+	private tusCreate(token: string, req: http.IncomingMessage) {
+		const upload = this.getUpload(token);
+		const length = parseInt(req.headers['upload-length'] as string, 10);
+		if (isNaN(length)) {
+			throw new HttpError(400, 'missing Upload-Length');
+		}
+		upload.size = length;
+		if (length === 0) {
+			this.startImport(upload);
+		}
+		return {
+			status: 201,
+			headers: {
+				'Tus-Resumable': '1.0.0',
+				Location: `${this.baseUrl}/upload/${token}/tus/upload`
+			}
+		};
+	}
+
+	private tusOffset(token: string) {
+		const upload = this.getUpload(token);
+		return {
+			headers: {
+				'Tus-Resumable': '1.0.0',
+				'Upload-Offset': upload.offset.toString(),
+				'Upload-Length': (upload.size ?? 0).toString(),
+				'Cache-Control': 'no-store'
+			}
+		};
+	}
+
+	private async tusPatch(token: string, req: http.IncomingMessage) {
+		const upload = this.getUpload(token);
+		const offset = parseInt(req.headers['upload-offset'] as string, 10);
+		if (offset !== upload.offset) {
+			throw new HttpError(409, 'mismatched Upload-Offset');
+		}
+		await this.consumeUpload(upload, req);
+		if (upload.size != null && upload.offset >= upload.size) {
+			this.startImport(upload);
+		}
+		return {
+			status: 204,
+			headers: {
+				'Tus-Resumable': '1.0.0',
+				'Upload-Offset': upload.offset.toString()
+			}
+		};
+	}
+
+	private consumeUpload(upload: Upload, req: http.IncomingMessage) {
+		return new Promise<void>((resolve, reject) => {
+			req.on('data', (chunk: Buffer) => {
+				upload.offset += chunk.length;
+				upload.md5.update(chunk);
+				upload.sha256.update(chunk);
+			});
+			req.on('error', reject);
+			req.on('end', resolve);
+		});
+	}
+
+	private startImport(upload: Upload) {
+		const task = this.getTask(upload.taskId);
+		const asset = this.getAsset(upload.assetId);
+		this.runTask(task, () => {
+			this.finishImport(asset, upload.offset, [
+				{ hash: upload.md5.digest('hex'), algorithm: 'md5' },
+				{ hash: upload.sha256.digest('hex'), algorithm: 'sha256' }
+			]);
+		});
+	}
+
+	private finishImport(
+		asset: Asset,
+		size: number,
+		hash: NonNullable<Asset['hash']>
+	) {
+		this.updateAssetState(asset.id, {
+			size,
+			hash,
+			videoSpec: sourceSpec(this.sourceVideo, size)
+		});
+		this.setAssetPhase(asset.id, 'ready');
+	}
+
+	private async ipfsAdd(req: http.IncomingMessage, url: URL) {
+		const { filename, content } = parseMultipart(
+			req.headers['content-type'],
+			await readBody(req)
+		);
+		const cid = this.addToIpfs(content);
+		if (url.searchParams.get('pin') !== 'false') {
+			this.pins.add(cid);
+		}
+		return {
+			body: { Name: filename, Hash: cid, Size: content.length.toString() }
+		};
+	}
+
+	private ipfsPin(url: URL) {
+		const cid = url.searchParams.get('arg');
+		if (!cid) {
+			throw new HttpError(400, 'argument "ipfs-path" is required');
+		}
+		this.pins.add(cid);
+		return { body: { Pins: [cid] } };
+	}
+
+	private ipfsGet(cid: string) {
+		const content = this.ipfs.get(cid);
+		if (!content) {
+			throw new HttpError(404, 'not found');
+		}
+		return { content };
+	}
+
+	private getThumbnail(playbackId: string, url: URL) {
+		const asset = [...this.assets.values()].find(
+			a => a.playbackId === playbackId
+		);
+		if (!asset) {
+			throw new HttpError(404, 'not found');
+		}
+		const time = url.searchParams.get('time') ?? '';
+		// JPEG start and end of image markers around some unique garbage
+		const content = Buffer.concat([
+			Buffer.from([0xff, 0xd8]),
+			Buffer.from(`thumbnail ${playbackId} ${time}`),
+			Buffer.from([0xff, 0xd9])
+		]);
+		return { headers: { 'Content-Type': 'image/jpeg' }, content };
+	}
+
+	private addToIpfs(content: Buffer) {
+		const cid = fakeCid(content);
+		this.ipfs.set(cid, content);
+		return cid;
+	}
+
+	private list(objects: Map<string, Asset | Task>, url: URL) {
+		const limit = parseInt(url.searchParams.get('limit') ?? '', 10) || 20;
+		const offset = parseInt(url.searchParams.get('cursor') ?? '', 10) || 0;
+		const filters: { id: string; value: any }[] = JSON.parse(
+			url.searchParams.get('filters') ?? '[]'
+		);
+		const matching = Array.from(objects.values())
+			.filter(obj => !obj.deleted)
+			.filter(obj => filters.every(f => matchesFilter(obj, f)))
+			.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+		const page = matching.slice(offset, offset + limit);
+
+		const headers: Record<string, string> = {};
+		if (offset + limit < matching.length) {
+			const next = new URL(url.toString());
+			next.searchParams.set('limit', limit.toString());
+			next.searchParams.set('cursor', (offset + limit).toString());
+			headers['Link'] = `<${next}>; rel="next"`;
+		}
+		return { body: page, headers };
+	}
+
+	private createAsset(name: string, sourceAssetId?: string) {
+		const now = Date.now();
+		const playbackId = crypto.randomBytes(8).toString('hex');
+		const asset: Asset = {
+			id: crypto.randomUUID(),
+			name,
+			playbackId,
+			playbackUrl: `${this.baseUrl}/hls/${playbackId}/index.m3u8`,
+			downloadUrl: `${this.baseUrl}/asset/${playbackId}/video`,
+			createdAt: now,
+			status: { phase: 'waiting', updatedAt: now },
+			...(sourceAssetId && { sourceAssetId })
+		};
+		this.assets.set(asset.id, asset);
+		this.notify('asset.created', { asset });
+		return asset;
+	}
+
+	private createTask(type: TaskType, fields: Partial<Task>) {
+		const now = Date.now();
+		const task: Task = {
+			id: crypto.randomUUID(),
+			type,
+			createdAt: now,
+			...fields,
+			status: { phase: 'pending', updatedAt: now }
+		};
+		this.tasks.set(task.id, task);
+		this.notify('task.spawned', { task });
+		return task;
+	}
+
+	private runTask(task: Task, complete: () => void) {
+		const {
+			pending = 100,
+			running = 500,
+			progressSteps = 4
+		} = this.opts.timings ?? {};
+		const schedule = (delay: number, fn: () => void) => {
+			const timer = setTimeout(fn, delay);
+			this.timers.set(task.id, [
+				...(this.timers.get(task.id) ?? []),
+				timer
+			]);
+		};
+
+		schedule(pending, () => {
+			const failure = this.takeFailure(task);
+			this.setTaskStatus(task, { phase: 'running', progress: 0 });
+			for (let step = 1; step < progressSteps; step++) {
+				schedule((running * step) / progressSteps, () =>
+					this.setTaskStatus(task, {
+						phase: 'running',
+						progress: step / progressSteps
+					})
+				);
+			}
+			schedule(running, () => {
+				this.clearTimers(task.id);
+				if (failure) {
+					this.setTaskStatus(task, {
+						phase: 'failed',
+						errorMessage: failure
+					});
+					const assetId = task.outputAssetId;
+					if (assetId && task.type !== 'export') {
+						this.setAssetPhase(assetId, 'failed', failure);
+					}
+					return;
+				}
+				complete();
+				this.setTaskStatus(task, { phase: 'completed', progress: 1 });
+			});
+		});
+	}
+
+	private takeFailure(task: Task) {
+		const idx = this.pendingFailures.findIndex(
+			f => !f.type || f.type === task.type
+		);
+		if (idx >= 0) {
+			return this.pendingFailures.splice(idx, 1)[0].message;
+		}
+		return this.opts.failTask?.(task) || undefined;
+	}
+
+	private clearTimers(taskId: string) {
+		this.timers.get(taskId)?.forEach(clearTimeout);
+		this.timers.delete(taskId);
+	}
+
+	private setTaskStatus(task: Task, status: NonNullable<Task['status']>) {
+		task.status = { ...status, updatedAt: Date.now() };
+		const phase = status.phase;
+		const event =
+			phase === 'completed' || phase === 'failed'
+				? `task.${phase}`
+				: 'task.updated';
+		this.notify(event, { task });
+	}
+
+	private setAssetPhase(
+		assetId: string,
+		phase: NonNullable<Asset['status']>['phase'],
+		errorMessage?: string
+	) {
+		const asset = this.getAsset(assetId);
+		const status = {
+			...asset.status,
+			phase,
+			updatedAt: Date.now(),
+			...(errorMessage && { errorMessage })
+		};
+		this.updateAssetState(assetId, { status });
+		if (phase !== 'waiting') {
+			this.notify(`asset.${phase}`, { asset: this.getAsset(assetId) });
+		}
+	}
+
+	private updateAssetState(assetId: string, fields: Partial<Asset>) {
+		const asset = { ...this.getAsset(assetId), ...fields };
+		this.assets.set(assetId, asset);
+		return asset;
+	}
+
+	private getAsset(assetId: string) {
+		const asset = this.assets.get(assetId);
+		if (!asset || asset.deleted) {
+			throw new HttpError(404, 'asset not found');
+		}
+		return asset;
+	}
+
+	private getTask(taskId: string) {
+		const task = this.tasks.get(taskId);
+		if (!task) {
+			throw new HttpError(404, 'task not found');
+		}
+		return task;
+	}
+
+	private getUpload(token: string) {
+		const upload = this.uploads.get(token);
+		if (!upload) {
+			throw new HttpError(404, 'upload not found');
+		}
+		return upload;
+	}
+
+	private notify(event: string, payload: { task?: Task; asset?: Asset }) {
+		const { webhook } = this.opts;
+		if (!webhook) {
+			return;
+		}
+		const body = JSON.stringify({
+			id: crypto.randomUUID(),
+			createdAt: Date.now(),
+			event,
+			payload
+		});
+		axios
+			.post(webhook.url, body, {
+				headers: {
+					'Content-Type': 'application/json',
+					'Livepeer-Signature': signWebhook(webhook.secret, body)
+				}
+			})
+			.catch(err => this.opts.onWebhookError?.(err, event));
+	}
+}
+
+function sourceSpec(
+	video: EmulatedSourceVideo,
+	size: number
+): NonNullable<Asset['videoSpec']> {
+	const { duration, width, height, fps, codec, pixelFormat, audioBitrate } =
+		video;
+	const bitrate = Math.round((size * 8) / duration);
+	const tracks: VideoTrack[] = [
+		{
+			type: 'video',
+			codec,
+			startTime: 0,
+			duration,
+			bitrate: Math.max(0, bitrate - audioBitrate),
+			width,
+			height,
+			pixelFormat,
+			fps
+		}
+	];
+	if (audioBitrate > 0) {
+		tracks.push({
+			type: 'audio',
+			codec: 'aac',
+			startTime: 0,
+			duration,
+			bitrate: audioBitrate,
+			channels: 2,
+			sampleRate: 48000,
+			bitDepth: 16
+		});
+	}
+	return { format: 'mp4', duration, bitrate, tracks };
+}
+
+function transcodedSpec(
+	input: Asset,
+	profile: FfmpegProfile
+): NonNullable<Asset['videoSpec']> {
+	const { duration = 0, tracks = [] } = input.videoSpec ?? {};
+	const inVideo = tracks.find(t => t.type === 'video');
+	const audio = tracks.filter(t => t.type === 'audio');
+	const audioBitrate = audio.reduce((sum, t) => sum + (t.bitrate ?? 0), 0);
+	const video: VideoTrack = {
+		type: 'video',
+		codec: profile.encoder ?? 'h264',
+		startTime: 0,
+		duration,
+		bitrate: profile.bitrate,
+		width: profile.width || inVideo?.width,
+		height: profile.height || inVideo?.height,
+		pixelFormat: 'yuv420p',
+		fps: profile.fps ? profile.fps / (profile.fpsDen ?? 1) : inVideo?.fps
+	};
+	return {
+		format: 'mp4',
+		duration,
+		bitrate: profile.bitrate + audioBitrate,
+		tracks: [video, ...audio]
+	};
+}
+
+function fakeHashes(seed: string): NonNullable<Asset['hash']> {
+	return ['md5', 'sha256'].map(algorithm => ({
+		hash: crypto.createHash(algorithm).update(seed).digest('hex'),
+		algorithm
+	}));
+}
+
+function matchesFilter(obj: any, { id, value }: { id: string; value: any }) {
+	const field = id.split('.').reduce((o, key) => o?.[key], obj);
+	if (id === 'hash') {
+		const hashes: NonNullable<Asset['hash']> = field ?? [];
+		return hashes.some(
+			h => h.hash === value?.hash && h.algorithm === value?.algorithm
+		);
+	}
+	if (Array.isArray(value)) {
+		return value.includes(field);
+	}
+	if (value && typeof value === 'object') {
+		const { gte, lte } = value;
+		return (
+			field != null &&
+			(gte == null || field >= gte) &&
+			(lte == null || field <= lte)
+		);
+	}
+	if (id === 'name') {
+		return typeof field === 'string' && field.includes(value);
+	}
+	return field === value;
+}
+
+function fakeCid(content: string | Buffer) {
+	const hash = crypto.createHash('sha256').update(content).digest('hex');
+	return 'bafy' + hash.slice(0, 55);
+}
+
+function readBody(req: http.IncomingMessage) {
+	return new Promise<Buffer>((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		req.on('data', chunk => chunks.push(chunk));
+		req.on('error', reject);
+		req.on('end', () => resolve(Buffer.concat(chunks)));
+	});
+}
+
+async function readJson(req: http.IncomingMessage) {
+	const body = (await readBody(req)).toString();
+	try {
+		return body ? JSON.parse(body) : {};
+	} catch (err) {
+		throw new HttpError(400, 'invalid JSON body');
+	}
+}
+
+// Extracts the first file from a multipart body, as sent to the Kubo add API.
+function parseMultipart(contentType: string | undefined, body: Buffer) {
+	const boundary = contentType?.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+	if (!boundary) {
+		throw new HttpError(400, 'expected a multipart body');
+	}
+	const delimiter = `--${boundary[1] ?? boundary[2]}`;
+	const start = body.indexOf(delimiter);
+	const headersEnd = body.indexOf('\r\n\r\n', start);
+	const end = body.indexOf(`\r\n${delimiter}`, headersEnd);
+	if (start < 0 || headersEnd < 0 || end < 0) {
+		throw new HttpError(400, 'invalid multipart body');
+	}
+	const headers = body.subarray(start, headersEnd).toString();
+	const filename = headers.match(/filename="([^"]*)"/)?.[1] ?? '';
+	return {
+		filename: decodeURIComponent(filename),
+		content: Buffer.from(body.subarray(headersEnd + 4, end))
+	};
+}
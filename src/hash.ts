@@ -0,0 +1,81 @@
+// Internal helpers for hashing the contents of files before uploading them. Not
+// part of the public SDK, check `minter.Uploader.computeHash` instead.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import hashjs from 'hash.js';
+
+import { throwIfAborted } from './http';
+
+/**
+ * The algorithm of the hashes computed by the SDK, as reported in the `hash`
+ * field of the assets in the Livepeer API.
+ */
+export const hashAlgorithm = 'sha256';
+
+/**
+ * The contents that can be hashed without consuming them: a `File` (or any
+ * `Blob`), a `fs.ReadStream` which is read again from its path, or the path of
+ * a file in node.js.
+ */
+export type HashableContent = Blob | fs.ReadStream | string;
+
+// Size of the slices read from a Blob at a time, to avoid loading it whole.
+const blobChunkSize = 4 * 1024 * 1024;
+
+type Sha256 = {
+	update(data: Uint8Array): unknown;
+	digest(enc: 'hex'): string;
+};
+
+export function isHashable(content: unknown): content is HashableContent {
+	return (
+		typeof content === 'string' ||
+		(typeof Blob !== 'undefined' && content instanceof Blob) ||
+		(typeof fs.ReadStream === 'function' &&
+			content instanceof fs.ReadStream)
+	);
+}
+
+/**
+ * Computes the SHA-256 of the contents in a streaming fashion, returning it as
+ * a hex string.
+ */
+export async function sha256Hex(
+	content: HashableContent,
+	signal?: AbortSignal
+) {
+	const hash = createSha256();
+	if (typeof Blob !== 'undefined' && content instanceof Blob) {
+		for (let start = 0; start < content.size; start += blobChunkSize) {
+			throwIfAborted(signal);
+			const end = start + blobChunkSize;
+			const chunk = await content.slice(start, end).arrayBuffer();
+			hash.update(new Uint8Array(chunk));
+		}
+		return hash.digest('hex');
+	}
+
+	// read the file again so the original stream is left untouched for upload
+	const { path, start, end } =
+		typeof content === 'string'
+			? { path: content, start: undefined, end: undefined }
+			: (content as fs.ReadStream & { start?: number; end?: number });
+	const file = fs.createReadStream(path, { start, end });
+	try {
+		for await (const chunk of file) {
+			throwIfAborted(signal);
+			hash.update(chunk);
+		}
+	} finally {
+		file.destroy();
+	}
+	return hash.digest('hex');
+}
+
+function createSha256(): Sha256 {
+	// node.js crypto is much faster, but it is not available in the browser
+	return typeof crypto?.createHash === 'function'
+		? crypto.createHash(hashAlgorithm)
+		: hashjs.sha256();
+}
@@ -0,0 +1,436 @@
+// Internal HTTP helpers shared by the API clients. Not part of the public SDK,
+// the public types are re-exported from the `api` module instead.
+
+import fs from 'fs';
+import stream from 'stream';
+
+import type {
+	Transport,
+	TransportRequest,
+	TransportResponse
+} from './transport';
+
+/**
+ * Error thrown when a request to the API receives an unsuccessful response.
+ *
+ * @remarks
+ * More specific subclasses are thrown for the most common failures, so they
+ * can be handled with `instanceof` checks: {@link UnauthorizedError},
+ * {@link NotFoundError}, {@link RateLimitError} and {@link ServerError}.
+ */
+export class ApiError extends Error {
+	/**
+	 * The HTTP status code of the response.
+	 */
+	readonly status: number;
+	/**
+	 * The HTTP status text of the response.
+	 */
+	readonly statusText: string;
+	/**
+	 * All the error messages returned by the API in the response body.
+	 */
+	readonly errors: string[];
+	/**
+	 * The HTTP method of the failed request.
+	 */
+	readonly method: string;
+	/**
+	 * The URL of the failed request.
+	 */
+	readonly url: string;
+	/**
+	 * The amount of milliseconds the API asked to wait before retrying the
+	 * request, if it sent a `Retry-After` header.
+	 */
+	readonly retryAfter?: number;
+	/**
+	 * The raw body of the response.
+	 */
+	readonly data: any;
+
+	constructor(method: string, url: string, res: TransportResponse) {
+		const { status, statusText, data } = res;
+		const errors =
+			Array.isArray(data?.errors) && data.errors.length > 0
+				? data.errors.map((e: any) =>
+						typeof e === 'string' ? e : JSON.stringify(e)
+				  )
+				: [JSON.stringify(data)];
+		super(
+			`Request to ${url} failed (${status} ${statusText}): ${errors.join(
+				'; '
+			)}`
+		);
+		this.name = 'ApiError';
+		this.status = status;
+		this.statusText = statusText;
+		this.errors = errors;
+		this.method = method.toUpperCase();
+		this.url = url;
+		this.retryAfter = parseRetryAfter(res.headers?.['retry-after']);
+		this.data = data;
+	}
+}
+
+/**
+ * Error thrown when the API rejects the credentials of a request, with a 401
+ * or 403 status.
+ */
+export class UnauthorizedError extends ApiError {
+	constructor(method: string, url: string, res: TransportResponse) {
+		super(method, url, res);
+		this.name = 'UnauthorizedError';
+	}
+}
+
+/**
+ * Error thrown when the requested object is not found in the API, with a 404
+ * status.
+ */
+export class NotFoundError extends ApiError {
+	constructor(method: string, url: string, res: TransportResponse) {
+		super(method, url, res);
+		this.name = 'NotFoundError';
+	}
+}
+
+/**
+ * Error thrown when the request is rate limited by the API, with a 429 status.
+ * Check the `retryAfter` field for how long to wait before retrying.
+ */
+export class RateLimitError extends ApiError {
+	constructor(method: string, url: string, res: TransportResponse) {
+		super(method, url, res);
+		this.name = 'RateLimitError';
+	}
+}
+
+/**
+ * Error thrown when the API fails with an internal error, with any 5xx status.
+ */
+export class ServerError extends ApiError {
+	constructor(method: string, url: string, res: TransportResponse) {
+		super(method, url, res);
+		this.name = 'ServerError';
+	}
+}
+
+/**
+ * Creates the most specific {@link ApiError} for the given failed response.
+ */
+export function toApiError(
+	method: string,
+	url: string,
+	res: TransportResponse
+) {
+	const { status } = res;
+	return status === 401 || status === 403
+		? new UnauthorizedError(method, url, res)
+		: status === 404
+		? new NotFoundError(method, url, res)
+		: status === 429
+		? new RateLimitError(method, url, res)
+		: status >= 500
+		? new ServerError(method, url, res)
+		: new ApiError(method, url, res);
+}
+
+/**
+ * Error thrown when a request fails without getting any response, like on
+ * connection or DNS failures.
+ */
+export class NetworkError extends Error {
+	/**
+	 * The original error thrown by the underlying HTTP client.
+	 */
+	readonly cause: unknown;
+
+	constructor(message: string, cause?: unknown) {
+		super(message);
+		this.name = 'NetworkError';
+		this.cause = cause;
+	}
+}
+
+/**
+ * Error thrown when an operation is aborted through an `AbortSignal`.
+ */
+export class AbortError extends Error {
+	constructor(message = 'The operation was aborted') {
+		super(message);
+		this.name = 'AbortError';
+	}
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+	if (signal?.aborted) {
+		throw new AbortError();
+	}
+}
+
+/**
+ * Configuration for automatically retrying failed requests to the API.
+ *
+ * @remarks
+ * Requests are retried when they are rate limited (429) or, only for
+ * idempotent methods (like `GET`), on network errors and 5xx responses. The
+ * delay between retries grows exponentially from `baseDelay` up to `maxDelay`,
+ * with a random jitter. A `Retry-After` header sent by the API takes precedence
+ * over the computed delay.
+ */
+export type RetryPolicy = {
+	/**
+	 * Maximum amount of retries for a single request. Defaults to 3.
+	 */
+	maxRetries: number;
+	/**
+	 * Base delay (in milliseconds) for the exponential backoff. Defaults to 500.
+	 */
+	baseDelay: number;
+	/**
+	 * Maximum delay (in milliseconds) to wait between retries. Defaults to 10s.
+	 */
+	maxDelay: number;
+};
+
+export const defaultRetryPolicy: RetryPolicy = {
+	maxRetries: 3,
+	baseDelay: 500,
+	maxDelay: 10_000
+};
+
+const idempotentMethods = ['get', 'head', 'options', 'put', 'delete'];
+
+export async function makeRequest<T>(
+	transport: Transport,
+	req: TransportRequest,
+	retryPolicy?: RetryPolicy
+) {
+	const res = await makeRawRequest<T>(transport, req, retryPolicy);
+	return res.data;
+}
+
+/**
+ * Sends a request through the `transport`, throwing the most specific
+ * {@link ApiError} for unsuccessful responses and retrying the request
+ * according to the `retryPolicy`.
+ */
+export async function makeRawRequest<T>(
+	transport: Transport,
+	req: TransportRequest,
+	retryPolicy?: RetryPolicy
+): Promise<TransportResponse<T>> {
+	const { method, url, signal } = req;
+	for (let attempt = 0; ; attempt++) {
+		throwIfAborted(signal);
+		let error: unknown;
+		try {
+			const res = await transport.request<T>(req);
+			if (res.status < 300) {
+				return res;
+			}
+			error = toApiError(method, url, res);
+		} catch (err) {
+			error = err;
+		}
+		const delay = retryPolicy && retryDelay(retryPolicy, method, error);
+		if (delay == null || attempt >= (retryPolicy?.maxRetries ?? 0)) {
+			throw error;
+		}
+		await sleep(delay(attempt), signal);
+	}
+}
+
+// Returns a function to calculate the delay before the next attempt, or null
+// if the request should not be retried.
+function retryDelay(policy: RetryPolicy, method: string, err: unknown) {
+	const idempotent = idempotentMethods.includes(method.toLowerCase());
+	const retryable =
+		err instanceof RateLimitError ||
+		(idempotent &&
+			(err instanceof ServerError || err instanceof NetworkError));
+	if (!retryable) {
+		return null;
+	}
+	const { baseDelay, maxDelay } = policy;
+	return (attempt: number) => {
+		if (err instanceof ApiError && err.retryAfter != null) {
+			return Math.min(err.retryAfter, maxDelay);
+		}
+		const backoff = Math.min(maxDelay, baseDelay * 2 ** attempt);
+		return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+	};
+}
+
+function parseRetryAfter(header?: string) {
+	if (!header) {
+		return undefined;
+	}
+	const seconds = Number(header);
+	if (!isNaN(seconds)) {
+		return seconds * 1000;
+	}
+	const date = Date.parse(header);
+	return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Detailed progress of a file upload, passed as the second argument of the
+ * upload progress callbacks.
+ */
+export type UploadProgress = {
+	/**
+	 * The amount of bytes already uploaded.
+	 */
+	bytes: number;
+	/**
+	 * The total size of the file in bytes, if known. It is not known for
+	 * generic node.js streams that are not read from a file.
+	 */
+	total?: number;
+	/**
+	 * The average upload throughput so far, in bytes per second.
+	 */
+	rate: number;
+	/**
+	 * The estimated time for the upload to complete, in seconds. Only available
+	 * when the `total` size is known.
+	 */
+	eta?: number;
+};
+
+/**
+ * Callback for reporting the progress of a file upload. The `progress` is a
+ * number from 0 to 1, which stays at 0 if the total size is unknown.
+ */
+export type UploadProgressCallback = (
+	progress: number,
+	details?: UploadProgress
+) => void;
+
+// Minimum interval between progress reports, to avoid flooding the callback
+// with every chunk read from the file.
+const progressReportInterval = 250;
+
+class UploadProgressTracker {
+	private startedAt = Date.now();
+	private lastReportAt = 0;
+	private lastBytes = -1;
+
+	constructor(
+		private report: UploadProgressCallback,
+		private total?: number
+	) {}
+
+	update(bytes: number, total = this.total) {
+		const now = Date.now();
+		const done = total != null && bytes >= total;
+		const throttled = now - this.lastReportAt < progressReportInterval;
+		if (done ? bytes === this.lastBytes : throttled) {
+			return;
+		}
+		this.lastReportAt = now;
+		this.lastBytes = bytes;
+		const elapsed = (now - this.startedAt) / 1000;
+		const rate = elapsed > 0 ? bytes / elapsed : 0;
+		const eta =
+			total != null && rate > 0 ? (total - bytes) / rate : undefined;
+		this.report(total ? bytes / total : 0, { bytes, total, rate, eta });
+	}
+}
+
+/**
+ * Prepares the content of a file upload for tracking its progress, both in the
+ * browser and in node.js.
+ *
+ * @remarks
+ * In the browser the progress events come from the transport itself, so the
+ * returned `onUploadProgress` should be passed in the request. In node.js the
+ * stream is piped through a byte counter, so the returned `content` must be
+ * used as the request body instead of the original stream.
+ */
+export async function trackUploadProgress<
+	T extends Blob | NodeJS.ReadableStream
+>(
+	content: T,
+	reportProgress?: UploadProgressCallback
+): Promise<{
+	content: T | stream.Transform;
+	onUploadProgress?: TransportRequest['onUploadProgress'];
+}> {
+	if (!reportProgress) {
+		return { content };
+	}
+	if (typeof Blob !== 'undefined' && content instanceof Blob) {
+		const tracker = new UploadProgressTracker(reportProgress, content.size);
+		return {
+			content,
+			onUploadProgress: loaded => tracker.update(loaded)
+		};
+	}
+
+	const readable = content as NodeJS.ReadableStream;
+	const tracker = new UploadProgressTracker(
+		reportProgress,
+		await streamSize(readable)
+	);
+	let bytes = 0;
+	const counter = new stream.Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			bytes += chunk.length;
+			tracker.update(bytes);
+			callback(null, chunk);
+		},
+		flush(callback) {
+			tracker.update(bytes, bytes);
+			callback();
+		}
+	});
+	readable.on('error', err => counter.destroy(err));
+	return { content: readable.pipe(counter) };
+}
+
+async function streamSize(content: NodeJS.ReadableStream) {
+	if (
+		typeof fs.ReadStream !== 'function' ||
+		!(content instanceof fs.ReadStream)
+	) {
+		return undefined;
+	}
+	const {
+		path,
+		start = 0,
+		end = Infinity
+	} = content as fs.ReadStream & {
+		start?: number;
+		end?: number;
+	};
+	try {
+		const { size } = await fs.promises.stat(path);
+		return Math.min(size, end + 1) - start;
+	} catch (err) {
+		return undefined;
+	}
+}
+
+/**
+ * Waits for the specified time, rejecting with an {@link AbortError} as soon as
+ * the `signal` is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal) {
+	return new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			return reject(new AbortError());
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new AbortError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
@@ -0,0 +1,487 @@
+/**
+ * This module provides a typed model of the NFT metadata exported to IPFS,
+ * together with utilities for building, validating and previewing it.
+ *
+ * @remarks
+ * The `nftMetadata` passed to {@link minter.Api.exportToIPFS} is not the final
+ * metadata of the NFT, but a set of overrides that the Livepeer API deep merges
+ * with the default metadata it generates for the asset. A `null` value deletes
+ * the field from the defaults. The {@link mergeNftMetadata} function reproduces
+ * those semantics locally, so the final JSON can be previewed before exporting
+ * with {@link previewNftMetadata} (also available in
+ * {@link minter.Api.previewNftMetadata}).
+ *
+ * @example
+ * ```ts
+ * const nftMetadata = new NftMetadataBuilder()
+ *   .setDescription('My first video NFT')
+ *   .addAttribute('Rarity', 'Legendary')
+ *   .remove('properties')
+ *   .build();
+ * console.log(previewNftMetadata(asset, nftMetadata));
+ * await minter.exportToIPFS(asset.id, nftMetadata);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { Asset } from './types/schema';
+import type { ValidationIssue } from './validation';
+
+/**
+ * An OpenSea-style attribute of the NFT, shown as a trait in marketplaces.
+ */
+export type NftAttribute = {
+	/**
+	 * The name of the trait. Can be omitted for generic attributes.
+	 */
+	trait_type?: string;
+	/**
+	 * The value of the trait. Must be a number for the numeric `display_type`s.
+	 */
+	value: string | number | boolean;
+	/**
+	 * How the trait should be displayed. A `date` must have a unix timestamp in
+	 * seconds as its value.
+	 */
+	display_type?: 'number' | 'boost_number' | 'boost_percentage' | 'date';
+	/**
+	 * The maximum value of a numeric trait.
+	 */
+	max_value?: number;
+};
+
+/**
+ * The metadata of the NFT, as exported to IPFS and referenced by the token URI.
+ */
+export type NftMetadata = {
+	/**
+	 * The name of the NFT.
+	 */
+	name?: string;
+	/**
+	 * A human readable description of the NFT. Markdown is supported by most
+	 * marketplaces.
+	 */
+	description?: string;
+	/**
+	 * The URL of an image representing the NFT.
+	 */
+	image?: string;
+	/**
+	 * The URL of the multimedia content of the NFT, which is the video file.
+	 */
+	animation_url?: string;
+	/**
+	 * The URL of an external page about the NFT, like in your own website.
+	 */
+	external_url?: string;
+	/**
+	 * The traits of the NFT.
+	 */
+	attributes?: NftAttribute[];
+	/**
+	 * Arbitrary additional properties of the NFT.
+	 */
+	properties?: Record<string, unknown>;
+	[field: string]: unknown;
+};
+
+/**
+ * The custom overrides for the NFT metadata, accepted in the `nftMetadata`
+ * argument of {@link minter.Api.exportToIPFS}. Fields with a `null` value are
+ * deleted from the default metadata, including nested ones in objects like the
+ * `properties`.
+ */
+export type NftMetadataOverrides = {
+	[K in keyof NftMetadata]?: NftMetadata[K] | null;
+};
+
+/**
+ * Error thrown when the NFT metadata is invalid. The message contains all the
+ * issues found, which are also available in the `issues` field.
+ */
+export class NftMetadataError extends Error {
+	readonly issues: ValidationIssue[];
+
+	constructor(issues: ValidationIssue[]) {
+		super(
+			`Invalid NFT metadata: ${issues
+				.map(i => `${i.path} ${i.message}`)
+				.join('; ')}`
+		);
+		this.name = 'NftMetadataError';
+		this.issues = issues;
+	}
+}
+
+/**
+ * Builder for the NFT metadata overrides, validating them when built.
+ *
+ * @remarks
+ * Fields that are not set keep the value from the default metadata generated
+ * by the Livepeer API. Use {@link remove} to delete a default field instead.
+ */
+export class NftMetadataBuilder {
+	private metadata: NftMetadataOverrides;
+
+	/**
+	 * Creates a new builder.
+	 *
+	 * @param initial Optional overrides to start from.
+	 */
+	constructor(initial: NftMetadataOverrides = {}) {
+		this.metadata = { ...initial };
+	}
+
+	setName(name: string) {
+		return this.set('name', name);
+	}
+
+	setDescription(description: string) {
+		return this.set('description', description);
+	}
+
+	setImage(url: string) {
+		return this.set('image', url);
+	}
+
+	setAnimationUrl(url: string) {
+		return this.set('animation_url', url);
+	}
+
+	setExternalUrl(url: string) {
+		return this.set('external_url', url);
+	}
+
+	/**
+	 * Adds an attribute to the NFT. Notice that the `attributes` are replaced
+	 * as a whole when merged with the default metadata.
+	 *
+	 * @param traitType The name of the trait.
+	 *
+	 * @param value The value of the trait.
+	 *
+	 * @param opts The optional `display_type` and `max_value` of the trait.
+	 */
+	addAttribute(
+		traitType: string | undefined,
+		value: NftAttribute['value'],
+		opts: Pick<NftAttribute, 'display_type' | 'max_value'> = {}
+	) {
+		const attribute: NftAttribute =
+			traitType === undefined
+				? { value, ...opts }
+				: { trait_type: traitType, value, ...opts };
+		const attributes = this.metadata.attributes ?? [];
+		return this.set('attributes', [...attributes, attribute]);
+	}
+
+	/**
+	 * Sets one of the custom `properties` of the NFT, which are merged one by
+	 * one with the default properties. Pass `null` to delete a default one.
+	 */
+	setProperty(key: string, value: unknown) {
+		const properties = this.metadata.properties ?? {};
+		return this.set('properties', { ...properties, [key]: value });
+	}
+
+	/**
+	 * Sets any field of the metadata, including custom ones not covered by the
+	 * other methods.
+	 */
+	set<K extends keyof NftMetadata>(field: K, value: NftMetadataOverrides[K]) {
+		this.metadata[field] = value;
+		return this;
+	}
+
+	/**
+	 * Deletes a field from the default metadata of the NFT.
+	 */
+	remove(field: keyof NftMetadata) {
+		return this.set(field, null);
+	}
+
+	/**
+	 * Builds the overrides to be passed to {@link minter.Api.exportToIPFS}.
+	 *
+	 * @returns A copy of the overrides. Throws an {@link NftMetadataError} if
+	 * they are invalid.
+	 */
+	build(): NftMetadataOverrides {
+		return validateNftMetadata(JSON.parse(JSON.stringify(this.metadata)));
+	}
+}
+
+/**
+ * Checks the NFT metadata or its overrides for problems, like URLs with an
+ * unsupported protocol or attributes with invalid values.
+ *
+ * @param metadata The metadata to check. A `null` is accepted for any field,
+ * meaning that it is deleted from the defaults.
+ *
+ * @param path The name of the object to use in the issues paths. Defaults to
+ * `nftMetadata`.
+ *
+ * @returns The list of issues found, which is empty if the metadata is valid.
+ */
+export function checkNftMetadata(
+	metadata: unknown,
+	path = 'nftMetadata'
+): ValidationIssue[] {
+	if (!isPlainObject(metadata)) {
+		return [{ path, message: 'must be an object' }];
+	}
+	const issues: ValidationIssue[] = [];
+	const check = (field: string, ok: boolean, message: string) => {
+		if (!ok) {
+			issues.push({ path: `${path}.${field}`, message });
+		}
+	};
+	const present = (field: string) => metadata[field] != null;
+
+	for (const field of ['name', 'description']) {
+		if (present(field)) {
+			check(
+				field,
+				typeof metadata[field] === 'string',
+				'must be a string'
+			);
+		}
+	}
+	for (const field of ['image', 'animation_url', 'external_url']) {
+		if (present(field)) {
+			const value = metadata[field];
+			check(
+				field,
+				typeof value === 'string' && urlRegex.test(value),
+				'must be an http(s), ipfs, ar or data URL'
+			);
+		}
+	}
+	if (present('properties')) {
+		check(
+			'properties',
+			isPlainObject(metadata.properties),
+			'must be an object'
+		);
+	}
+	if (present('attributes')) {
+		const { attributes } = metadata;
+		if (!Array.isArray(attributes)) {
+			check('attributes', false, 'must be an array');
+		} else {
+			attributes.forEach((attr, idx) =>
+				issues.push(
+					...checkAttribute(attr, `${path}.attributes[${idx}]`)
+				)
+			);
+		}
+	}
+	return issues;
+}
+
+/**
+ * Validates the NFT metadata or its overrides. Check {@link checkNftMetadata}.
+ *
+ * @param metadata The metadata to validate.
+ *
+ * @param path The name of the object to use in the issues paths. Defaults to
+ * `nftMetadata`.
+ *
+ * @returns The same object, typed as {@link NftMetadataOverrides}. Throws an
+ * {@link NftMetadataError} if invalid.
+ */
+export function validateNftMetadata(metadata: unknown, path = 'nftMetadata') {
+	const issues = checkNftMetadata(metadata, path);
+	if (issues.length > 0) {
+		throw new NftMetadataError(issues);
+	}
+	return metadata as NftMetadataOverrides;
+}
+
+/**
+ * Parses and validates the NFT metadata overrides, accepting them either as an
+ * object or a JSON string as in {@link minter.Api.exportToIPFS}.
+ *
+ * @param nftMetadata The overrides to parse, or `undefined` for none.
+ *
+ * @returns The parsed overrides. Throws an {@link NftMetadataError} if they
+ * are invalid.
+ */
+export function parseNftMetadata(
+	nftMetadata?: string | NftMetadataOverrides
+): NftMetadataOverrides | undefined {
+	if (typeof nftMetadata === 'string') {
+		try {
+			nftMetadata = JSON.parse(nftMetadata);
+		} catch (err: any) {
+			throw new NftMetadataError([
+				{
+					path: 'nftMetadata',
+					message: `is not valid JSON: ${err?.message}`
+				}
+			]);
+		}
+	}
+	return nftMetadata === undefined
+		? undefined
+		: validateNftMetadata(nftMetadata);
+}
+
+/**
+ * Merges the NFT metadata with custom overrides, with the same semantics of
+ * the Livepeer API.
+ *
+ * @remarks
+ * Objects are merged recursively, while any other values, including arrays
+ * like the `attributes`, replace the existing value as a whole. Fields with a
+ * `null` value are deleted. Neither of the arguments is modified.
+ *
+ * @param base The metadata to merge into, normally the
+ * {@link defaultNftMetadata} of the asset.
+ *
+ * @param overrides The custom overrides to apply.
+ *
+ * @returns The merged metadata.
+ */
+export function mergeNftMetadata(
+	base: NftMetadata,
+	overrides?: NftMetadataOverrides
+): NftMetadata {
+	return deepMerge(base, overrides ?? {});
+}
+
+/**
+ * The default image of the NFTs, used when no custom one is provided.
+ */
+export const defaultNftImage =
+	'ipfs://bafkreidmlgpjoxgvefhid2xjyqjnpmjjmq47yyrcm6ifvoovclty7sm4wm';
+
+/**
+ * Placeholder for the URL of the video file in the metadata of assets that
+ * have not been exported to IPFS yet, since it is only known after the export.
+ */
+export const videoFileUrlPlaceholder = 'ipfs://{videoFileCid}';
+
+/**
+ * Builds the default metadata that the Livepeer API generates for the NFT of
+ * an asset.
+ *
+ * @param asset The asset to be exported.
+ *
+ * @param videoFileUrl The URL of the video file in IPFS. Defaults to the one
+ * from the last export of the asset, or the {@link videoFileUrlPlaceholder}
+ * if it has not been exported to IPFS yet.
+ *
+ * @returns The default metadata of the NFT.
+ */
+export function defaultNftMetadata(
+	asset: Asset,
+	videoFileUrl = asset.status?.storage?.ipfs?.data?.videoFileUrl ??
+		videoFileUrlPlaceholder
+): NftMetadata {
+	const properties: Record<string, unknown> = { video: videoFileUrl };
+	if (asset.playbackId) {
+		properties['com.livepeer.playbackId'] = asset.playbackId;
+	}
+	return {
+		name: asset.name,
+		description: `Livepeer video from asset ${JSON.stringify(asset.name)}`,
+		image: defaultNftImage,
+		animation_url: videoFileUrl,
+		properties
+	};
+}
+
+/**
+ * Previews the final metadata of the NFT that will be exported for an asset,
+ * merging the default metadata with the custom overrides.
+ *
+ * @param asset The asset to be exported.
+ *
+ * @param nftMetadata The custom overrides, as an object or a JSON string.
+ *
+ * @returns The final metadata of the NFT. Throws an {@link NftMetadataError}
+ * if the overrides are invalid.
+ */
+export function previewNftMetadata(
+	asset: Asset,
+	nftMetadata?: string | NftMetadataOverrides
+) {
+	return mergeNftMetadata(
+		defaultNftMetadata(asset),
+		parseNftMetadata(nftMetadata)
+	);
+}
+
+const urlRegex = /^(https?|ipfs|ar):\/\/\S+$|^data:\S+$/i;
+
+const numericDisplayTypes = [
+	'number',
+	'boost_number',
+	'boost_percentage',
+	'date'
+];
+
+function checkAttribute(attr: unknown, path: string): ValidationIssue[] {
+	if (!isPlainObject(attr)) {
+		return [{ path, message: 'must be an object' }];
+	}
+	const issues: ValidationIssue[] = [];
+	const { trait_type, value, display_type, max_value } = attr;
+	if (trait_type !== undefined && typeof trait_type !== 'string') {
+		issues.push({
+			path: `${path}.trait_type`,
+			message: 'must be a string'
+		});
+	}
+	if (!['string', 'number', 'boolean'].includes(typeof value)) {
+		issues.push({
+			path: `${path}.value`,
+			message: 'must be a string, number or boolean'
+		});
+	}
+	if (display_type !== undefined) {
+		if (!numericDisplayTypes.includes(display_type as string)) {
+			issues.push({
+				path: `${path}.display_type`,
+				message: `must be one of ${numericDisplayTypes.join(', ')}`
+			});
+		} else if (typeof value !== 'number') {
+			issues.push({
+				path: `${path}.value`,
+				message: `must be a number for display_type ${display_type}`
+			});
+		}
+	}
+	if (max_value !== undefined && typeof max_value !== 'number') {
+		issues.push({ path: `${path}.max_value`, message: 'must be a number' });
+	}
+	return issues;
+}
+
+function deepMerge(
+	base: Record<string, unknown>,
+	overrides: Record<string, unknown>
+) {
+	const merged = { ...base };
+	for (const [key, value] of Object.entries(overrides)) {
+		if (value === null) {
+			delete merged[key];
+		} else if (isPlainObject(value)) {
+			const existing = merged[key];
+			merged[key] = deepMerge(
+				isPlainObject(existing) ? existing : {},
+				value
+			);
+		} else if (value !== undefined) {
+			merged[key] = value;
+		}
+	}
+	return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
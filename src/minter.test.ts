@@ -0,0 +1,192 @@
+import { ApiEmulator } from './emulator';
+import { Api } from './minter';
+import { KuboPinner } from './pinning';
+import { Asset, Task } from './types/schema';
+import { WebhookReceiver } from './webhook';
+
+describe('Api', () => {
+	let emulator: ApiEmulator;
+	let endpoint: string;
+	let api: Api;
+
+	beforeAll(async () => {
+		emulator = new ApiEmulator();
+		endpoint = await emulator.start();
+		api = new Api({ endpoint });
+	});
+
+	afterAll(() => emulator.stop());
+
+	describe('cleanupIntermediates', () => {
+		const addAsset = (id: string, sourceAssetId?: string) => {
+			const asset: Asset = {
+				id,
+				name: id,
+				status: { phase: 'ready', updatedAt: Date.now() },
+				...(sourceAssetId && { sourceAssetId })
+			};
+			emulator.assets.set(id, asset);
+			return asset;
+		};
+		const isDeleted = (id: string) => !!emulator.assets.get(id)?.deleted;
+
+		it('deletes only the assets derived from the same source', async () => {
+			const root = addAsset('root');
+			const minted = addAsset('minted', root.id);
+			const other = addAsset('other', root.id);
+			const unrelated = addAsset('unrelated', 'elsewhere');
+			// a server ignoring the sourceAssetId filter lists everything
+			jest.spyOn(api.vod, 'iterateAssets').mockImplementation(
+				async function* () {
+					yield* [root, minted, other, unrelated];
+				}
+			);
+
+			const deleted = await api.cleanupIntermediates(minted);
+
+			expect(deleted).toEqual(['root', 'other']);
+			expect(isDeleted('minted')).toBe(false);
+			expect(isDeleted('unrelated')).toBe(false);
+		});
+	});
+
+	describe('findAssetByHash', () => {
+		const listed = (hash: Asset['hash']) =>
+			jest.spyOn(api.vod, 'listAssets').mockResolvedValue({
+				items: [{ id: 'listed', name: 'listed', hash }]
+			});
+
+		it('returns the asset with the same hash', async () => {
+			listed([
+				{ hash: 'aaa', algorithm: 'md5' },
+				{ hash: 'bbb', algorithm: 'sha256' }
+			]);
+
+			const asset = await api.findAssetByHash('bbb', 'sha256');
+
+			expect(asset?.id).toBe('listed');
+		});
+
+		it('ignores a listed asset with a different hash', async () => {
+			listed([{ hash: 'ccc', algorithm: 'sha256' }]);
+
+			expect(await api.findAssetByHash('bbb', 'sha256')).toBeUndefined();
+		});
+
+		it('ignores a listed asset with the hash of another algorithm', async () => {
+			listed([{ hash: 'bbb', algorithm: 'md5' }]);
+
+			expect(await api.findAssetByHash('bbb', 'sha256')).toBeUndefined();
+		});
+	});
+
+	describe('findDuplicateAsset', () => {
+		it('does not hash the file unless deduplicate is enabled', async () => {
+			const listAssets = jest.spyOn(api.vod, 'listAssets');
+
+			expect(await api.findDuplicateAsset(__filename)).toBeUndefined();
+			expect(listAssets).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('prepareNftMetadata', () => {
+		let pinner: KuboPinner;
+		let pinnerApi: Api;
+		const asset: Asset = {
+			id: 'video',
+			name: 'video',
+			playbackId: 'videoplayback',
+			videoSpec: { duration: 30 }
+		};
+
+		beforeEach(() => {
+			emulator.assets.set(asset.id, {
+				...asset,
+				downloadUrl: `${endpoint}/asset/videoplayback/video`
+			});
+			pinner = new KuboPinner({ url: endpoint });
+			pinnerApi = new Api({ endpoint, pinner });
+		});
+
+		it('sets the image to a pinned poster', async () => {
+			const overrides = await pinnerApi.prepareNftMetadata(asset.id, {
+				name: 'Custom'
+			});
+
+			expect(overrides?.name).toBe('Custom');
+			const cid = overrides?.image?.replace('ipfs://', '') ?? '';
+			expect(emulator.pins).toContain(cid);
+			expect(emulator.ipfs.get(cid)?.toString()).toContain(
+				'thumbnail videoplayback 10'
+			);
+		});
+
+		it('pins the poster only once', async () => {
+			const add = jest.spyOn(pinner, 'add');
+
+			const preview = await pinnerApi.prepareNftMetadata(asset.id);
+			const exported = await pinnerApi.prepareNftMetadata(asset.id);
+
+			expect(exported?.image).toBe(preview?.image);
+			expect(add).toHaveBeenCalledTimes(1);
+		});
+
+		it('deletes the image when set to null', async () => {
+			const overrides = await pinnerApi.prepareNftMetadata(asset.id, {
+				image: null
+			});
+
+			expect(overrides).toEqual({ image: null });
+			const preview = await pinnerApi.previewNftMetadata(
+				asset.id,
+				overrides
+			);
+			expect(preview).not.toHaveProperty('image');
+		});
+	});
+
+	describe('waitTask', () => {
+		const running: Task = {
+			id: 'task',
+			status: { phase: 'running', updatedAt: 1 }
+		};
+
+		const withWebhooks = (maxWait?: number) => {
+			const webhooks = new WebhookReceiver({ secret: 'secret' });
+			const nextTaskUpdate = jest
+				.spyOn(webhooks, 'nextTaskUpdate')
+				.mockResolvedValue(undefined);
+			const webhooksApi = new Api({
+				webhooks,
+				polling: { interval: 10, maxWait }
+			});
+			jest.spyOn(webhooksApi.vod, 'getTask').mockResolvedValue({
+				...running,
+				status: { phase: 'completed', updatedAt: 2 }
+			});
+			return { webhooksApi, nextTaskUpdate };
+		};
+
+		it('waits for webhooks instead of polling', async () => {
+			const { webhooksApi, nextTaskUpdate } = withWebhooks();
+
+			await webhooksApi.waitTask(running);
+
+			expect(nextTaskUpdate).toHaveBeenCalledWith(
+				'task',
+				30_000,
+				undefined
+			);
+		});
+
+		it('waits for webhooks only until the max wait', async () => {
+			const { webhooksApi, nextTaskUpdate } = withWebhooks(5_000);
+
+			await webhooksApi.waitTask(running);
+
+			const timeout = nextTaskUpdate.mock.calls[0][1];
+			expect(timeout).toBeLessThanOrEqual(5_000);
+			expect(timeout).toBeGreaterThan(4_000);
+		});
+	});
+});
@@ -33,11 +33,54 @@
 import { ethers } from 'ethers';
 import fs from 'fs';
 
-import { VodApi, Task, ApiOptions } from './api';
+import {
+	VodApi,
+	Task,
+	AbortError,
+	ApiOptions,
+	CustomExportParams,
+	isTaskFinished,
+	PinataCredentials,
+	UploadProgressCallback
+} from './api';
+import { hashAlgorithm, isHashable, sha256Hex } from './hash';
+import { defaultRetryPolicy, makeRequest, sleep, throwIfAborted } from './http';
+import type { Transport } from './transport';
+import { validateExportToIPFSOutput } from './validation';
+import {
+	ResumableContent,
+	ResumableUpload,
+	ResumableUploadOptions
+} from './upload';
 import { fileOpen } from 'browser-fs-access';
-import { getDesiredBitrate, makeProfile } from './transcode';
-import { Asset, FfmpegProfile } from './types/schema';
+import {
+	getAssetPlaybackInfo,
+	getIpfsPlaybackInfo,
+	getPosterUrl,
+	PlaybackOptions
+} from './playback';
+import {
+	NftMetadataOverrides,
+	parseNftMetadata,
+	previewNftMetadata
+} from './metadata';
+import {
+	CheckpointStore,
+	MintPipeline,
+	MintPipelineArgs,
+	MintPipelineState
+} from './pipeline';
+import { Pinner, pinNftMetadata } from './pinning';
+import {
+	checkNormalizeTarget,
+	makeNormalizeProfile,
+	NormalizeTargetOption,
+	NormalizeViolation,
+	resolveNormalizeTargets
+} from './targets';
+import { Asset, ExportToIPFSOutput, FfmpegProfile } from './types/schema';
 import { getBuiltinChain, toHexChainId } from './chains';
+import type { WebhookReceiver } from './webhook';
 
 /**
  * Representation of either an `ethers` JSON RPC provider or the arguments
@@ -88,6 +131,102 @@ export type MintedNftInfo = {
 	};
 };
 
+/**
+ * Information about an asset exported to a custom URL with
+ * {@link Api.exportToUrl}.
+ */
+export type ExportToUrlOutput = {
+	/**
+	 * The URL to which the asset was exported.
+	 */
+	url: string;
+	/**
+	 * The HTTP method used in the export request.
+	 */
+	method: string;
+	/**
+	 * The completed export task.
+	 */
+	task: Task;
+};
+
+/**
+ * Strategy for polling the API while waiting for a task with
+ * {@link Api.waitTask}.
+ *
+ * @remarks
+ * The interval between polls starts at `interval` and is multiplied by
+ * `backoff` after every poll, up to `maxInterval`. It goes back to the initial
+ * `interval` whenever the task makes any progress.
+ */
+export type PollingStrategy = {
+	/**
+	 * Initial interval between polls, in milliseconds. Defaults to 2.5s.
+	 */
+	interval?: number;
+	/**
+	 * Factor to multiply the interval by after every poll without progress.
+	 * Defaults to 1, meaning a constant interval.
+	 */
+	backoff?: number;
+	/**
+	 * Maximum interval between polls, in milliseconds. Defaults to 30s.
+	 */
+	maxInterval?: number;
+	/**
+	 * Maximum time to wait for the task, in milliseconds, after which a
+	 * {@link TaskTimeoutError} is thrown. Defaults to waiting forever.
+	 */
+	maxWait?: number;
+	/**
+	 * Time without any progress on the task after which it is considered
+	 * stalled and `onStall` is called, in milliseconds. Defaults to 5 minutes.
+	 */
+	stallTimeout?: number;
+	/**
+	 * Optional callback to be called when the task is stalled. It is called
+	 * again every `stallTimeout` until the task makes progress. It can throw an
+	 * error to stop waiting for the task, which is then propagated by
+	 * {@link Api.waitTask}.
+	 */
+	onStall?: (task: Task, stalledFor: number) => void;
+};
+
+const defaultPollingStrategy = {
+	interval: 2500,
+	backoff: 1,
+	maxInterval: 30_000,
+	stallTimeout: 5 * 60_000
+};
+
+/**
+ * Error thrown when a task does not finish within the `maxWait` of the
+ * {@link PollingStrategy}. The task keeps running in the API, so it can still
+ * be waited for again with the `task` from this error.
+ */
+export class TaskTimeoutError extends Error {
+	/**
+	 * The last state of the task that was seen before timing out.
+	 */
+	readonly task: Task;
+	/**
+	 * How long the task was waited for, in milliseconds.
+	 */
+	readonly waited: number;
+
+	constructor(task: Task, waited: number) {
+		const { phase = 'unknown', progress = 0 } = task.status ?? {};
+		super(
+			`Timed out waiting for task ${task.id} after ${Math.round(
+				waited / 1000
+			)}s (phase: ${phase}, progress: ${progress})`
+		);
+		this.name = 'TaskTimeoutError';
+		this.task = task;
+		this.waited = waited;
+	}
+}
+
 /**
  * The ABI for the required interface that the NFT smart contract should
  * implement to be compatible with this SDK. Represented in ethers'
@@ -134,6 +273,14 @@ const isBrowser = typeof window !== 'undefined';
  * {@link uploadFile} method to upload the file contents to the Livepeer API.
  */
 export class Uploader {
+	/**
+	 * Creates a new `Uploader`.
+	 *
+	 * @param transport The HTTP transport to use for the uploads. Defaults to
+	 * the best one for the current runtime (check {@link transport}).
+	 */
+	constructor(private transport?: Transport) {}
+
 	/**
 	 * Browser-only: Opens the file picker from the operating system for the user
 	 * to select a video file to upload.
@@ -220,6 +367,34 @@ export class Uploader {
 		}
 	}
 
+	/**
+	 * Computes the hash of the contents of a file, which can be used for
+	 * checking if it has already been uploaded with {@link Api.findAssetByHash}.
+	 *
+	 * @remarks
+	 * The hash is a SHA-256, the same algorithm reported in the `hash` field of
+	 * the assets. The file is read in chunks, so it is never loaded whole in
+	 * memory. A `fs.ReadStream` is read again from its path, so it can still be
+	 * used for the upload afterwards. Generic node.js streams are not supported
+	 * since they can only be read once.
+	 *
+	 * @param content A `File` from the browser, or a `fs.ReadStream` or the
+	 * path of a file in node.js.
+	 *
+	 * @param signal An optional signal to abort reading the file.
+	 *
+	 * @returns The hex-encoded SHA-256 of the file contents.
+	 */
+	async computeHash(
+		content: File | NodeJS.ReadableStream | string,
+		signal?: AbortSignal
+	) {
+		if (!isHashable(content)) {
+			throw new Error('Only files can be hashed, not generic streams');
+		}
+		return await sha256Hex(content, signal);
+	}
+
 	/**
 	 * Uploads a file to the Livepeer API using a direct upload URL obtained via
 	 * {@link Api.requestUploadUrl}.
@@ -233,18 +408,156 @@ export class Uploader {
 	 *
 	 * @param content The file contents to upload.
 	 *
+	 * @param reportProgress An optional callback that will be called with the
+	 * upload progress and the detailed {@link api.UploadProgress}.
+	 *
+	 * @param mimeType An optional `mimeType` for the file.
+	 *
+	 * @param signal An optional signal to abort the upload.
+	 *
 	 * @returns A promise that will be completed when the upload is done.
 	 */
 	uploadFile(
 		url: string,
 		content: File | NodeJS.ReadableStream,
-		reportProgress?: (progress: number) => void,
-		mimeType?: string
+		reportProgress?: UploadProgressCallback,
+		mimeType?: string,
+		signal?: AbortSignal
 	) {
-		return VodApi.uploadFile(url, content, reportProgress, mimeType);
+		return VodApi.uploadFile(
+			url,
+			content,
+			reportProgress,
+			mimeType,
+			signal,
+			this.transport
+		);
+	}
+
+	/**
+	 * Creates a resumable upload of a file to the Livepeer API, using the tus
+	 * endpoint obtained via {@link Api.requestUploadUrl}.
+	 *
+	 * @remarks
+	 * This is recommended instead of {@link uploadFile} for large files. The file
+	 * is sent in chunks which are retried individually on failures, and the
+	 * upload can be paused and resumed, even across different sessions if using
+	 * a persistent {@link upload.UploadStore}. See {@link upload.ResumableUpload}
+	 * for more details.
+	 *
+	 * @param tusEndpoint The `tusEndpoint` obtained via
+	 * {@link Api.requestUploadUrl}.
+	 *
+	 * @param content The file contents to upload. A `File` from the browser or a
+	 * `fs.ReadStream` from node.js (e.g. obtained via {@link openFile}).
+	 *
+	 * @param opts Additional options for the upload, like the chunk size, the
+	 * store for persisting the upload state and a `signal` to abort it.
+	 *
+	 * @returns The {@link upload.ResumableUpload} object. Call its `start` method
+	 * to actually start the upload.
+	 */
+	resumableUpload(
+		tusEndpoint: string,
+		content: ResumableContent,
+		opts?: ResumableUploadOptions
+	) {
+		return new ResumableUpload(tusEndpoint, content, {
+			transport: this.transport,
+			...opts
+		});
 	}
 }
 
+/**
+ * Options for creating an {@link Api} instance. Includes all the
+ * {@link api.ApiOptions} for the underlying {@link VodApi} client.
+ */
+export type MinterApiOptions = ApiOptions & {
+	/**
+	 * An optional receiver for the Livepeer API webhooks. If provided, waiting
+	 * for tasks will be driven by the received webhooks instead of polling the
+	 * API frequently. Polling is still used as a fallback with a much longer
+	 * interval. Node.js only, check {@link webhook.WebhookReceiver} from the
+	 * `@livepeer/video-nft/webhook` entry point.
+	 */
+	webhooks?: WebhookReceiver;
+	/**
+	 * Whether to also cancel the task in the Livepeer API when an operation
+	 * waiting for it is aborted through an `AbortSignal`. Defaults to `false`,
+	 * in which case the task keeps running remotely and can still be waited for
+	 * later with {@link Api.waitTask}.
+	 */
+	cancelTasksOnAbort?: boolean;
+	/**
+	 * Options for building the playback URLs returned by
+	 * {@link Api.getPlaybackInfo} and {@link Api.getIpfsPlaybackInfo}, like a
+	 * custom CDN or IPFS gateway.
+	 */
+	playback?: PlaybackOptions;
+	/**
+	 * The default strategy for polling the API while waiting for tasks, like
+	 * the interval and a timeout. Can be overridden on each
+	 * {@link Api.waitTask} call.
+	 */
+	polling?: PollingStrategy;
+	/**
+	 * Whether {@link Api.createAsset} should check if the file was already
+	 * uploaded before, reusing the existing asset instead of uploading it
+	 * again. Defaults to `false`, since the check reads the whole file once more
+	 * to hash it before the upload and makes an extra request to list the assets
+	 * with the same hash. Check {@link Api.findDuplicateAsset}.
+	 */
+	deduplicate?: boolean;
+	/**
+	 * Optional callback to be called when a file being uploaded is a duplicate
+	 * of an existing asset, e.g. for warning the user about it. Return `upload`
+	 * to upload the file anyway, otherwise the existing asset is reused.
+	 */
+	onDuplicateAsset?: (existing: Asset) => 'reuse' | 'upload' | void;
+	/**
+	 * Optional backend for pinning the exported files in IPFS yourself, with
+	 * the NFT metadata built locally. Check {@link Api.exportToIPFS} and the
+	 * {@link pinning} module.
+	 */
+	pinner?: Pinner;
+	/**
+	 * Whether {@link Api.exportToIPFS} should set the `image` of the NFT to a
+	 * poster generated from a frame of the video, unless a custom `image` is
+	 * provided in the metadata. Pass an object to pick the `time` in seconds of
+	 * the frame for every asset. See {@link Api.createPoster}.
+	 *
+	 * @remarks
+	 * The poster is pinned in IPFS with the `pinner`, so it requires one and
+	 * defaults to `true` only if a `pinner` is configured. Otherwise the NFT
+	 * keeps the default image.
+	 */
+	poster?: boolean | { time?: number };
+};
+
+/**
+ * Options for {@link Api.nftNormalize}.
+ */
+export type NftNormalizeOptions = {
+	/**
+	 * The marketplaces or platforms to normalize the asset for. Defaults to
+	 * OpenSea. See {@link targets.NormalizeTargetOption}.
+	 */
+	target?: NormalizeTargetOption;
+	/**
+	 * A function that will be called periodically with the progress of the
+	 * transcode task.
+	 */
+	reportProgress?: (progress: number) => void;
+	/**
+	 * An optional signal to abort waiting for the transcode.
+	 */
+	signal?: AbortSignal;
+};
+
+// Interval for polling the task as a fallback when using webhooks.
+const webhookFallbackInterval = 30_000;
+
 /**
  * Provides higher-level abstractions on top of the Livepeer VOD API focused on
  * the NFT-minting process.
@@ -258,6 +571,15 @@ export class Uploader {
  */
 export class Api {
 	public vod: VodApi;
+	public pinner?: Pinner;
+	private webhooks?: WebhookReceiver;
+	private cancelTasksOnAbort: boolean;
+	private playback: PlaybackOptions;
+	private poster?: { time?: number };
+	private pinnedPosters = new Map<string, Promise<string>>();
+	private polling: PollingStrategy;
+	private deduplicate: boolean;
+	private onDuplicateAsset?: MinterApiOptions['onDuplicateAsset'];
 
 	/**
 	 * Creates a new `Api` instance with the given API configuration.
@@ -269,10 +591,25 @@ export class Api {
 	 * the same endpoint as the current page by default and won't include any
 	 * credentials in the requests. All API paths are prefixed with `/api`.
 	 *
-	 * @param api The options to pass to the Livepeer API client.
+	 * @param api The options to pass to the Livepeer API client, and optionally
+	 * a webhook receiver for event-driven task tracking.
 	 */
-	constructor(api: ApiOptions) {
+	constructor(api: MinterApiOptions) {
 		this.vod = new VodApi(api);
+		this.webhooks = api.webhooks;
+		this.cancelTasksOnAbort = api.cancelTasksOnAbort ?? false;
+		this.playback = api.playback ?? {};
+		this.polling = api.polling ?? {};
+		this.deduplicate = api.deduplicate ?? false;
+		this.onDuplicateAsset = api.onDuplicateAsset;
+		this.pinner = api.pinner;
+		const { poster = !!api.pinner } = api;
+		if (poster && !api.pinner) {
+			throw new Error(
+				'The poster option requires a pinner to pin the image in IPFS'
+			);
+		}
+		this.poster = poster === true ? {} : poster || undefined;
 	}
 
 	/**
@@ -285,12 +622,14 @@ export class Api {
 	 *
 	 * @param name The name of the asset that will be created.
 	 *
+	 * @param signal An optional signal to abort the request.
+	 *
 	 * @returns An object with the `url` and created `asset` and `task`. The
 	 * `asset` and `task` can be used to track the progress of the upload (see
 	 * {@link waitTask}).
 	 */
-	requestUploadUrl(name: string) {
-		return this.vod.requestUploadUrl(name);
+	requestUploadUrl(name: string, signal?: AbortSignal) {
+		return this.vod.requestUploadUrl(name, signal);
 	}
 
 	/**
@@ -307,31 +646,166 @@ export class Api {
 	 * inefficient in case you pipe the whole file contents through your backend,
 	 * or; insecure if you call the Livepeer API from the frontend.
 	 *
+	 * @remarks
+	 * If the `deduplicate` option is enabled, files that were already uploaded
+	 * before are not uploaded again unless `forceUpload` is set. The existing
+	 * asset with the same contents is returned instead. Check
+	 * {@link findDuplicateAsset} for more details.
+	 *
 	 * @param name The name of the asset that will be created.
 	 *
 	 * @param content The content of the file to be uploaded.
 	 *
 	 * @param reportProgress A function that will be called periodically with the
-	 * progress of the upload. Parts of it only work in the browser.
+	 * progress of the whole process. The first half is the upload, for which the
+	 * detailed {@link api.UploadProgress} is also passed, and the second half is
+	 * the processing of the file in the API.
+	 *
+	 * @param signal An optional signal to abort the upload and the processing.
+	 *
+	 * @param forceUpload Whether to upload the file even if there is already an
+	 * asset with the same contents.
 	 *
 	 * @returns The newly created and already processed/populated {@link Asset}.
 	 */
 	async createAsset(
 		name: string,
 		content: File | NodeJS.ReadableStream,
-		reportProgress: (progress: number) => void = () => {}
+		reportProgress: UploadProgressCallback = () => {},
+		signal?: AbortSignal,
+		forceUpload = false
 	) {
-		const uploader = new Uploader();
+		const existing =
+			!forceUpload && (await this.findDuplicateAsset(content, signal));
+		if (existing) {
+			reportProgress(1);
+			return existing;
+		}
+		const uploader = new Uploader(this.vod.transport);
 		const {
 			url: uploadUrl,
 			asset: { id: assetId },
 			task
-		} = await this.requestUploadUrl(name);
-		await uploader.uploadFile(uploadUrl, content, p =>
-			reportProgress(p / 2)
+		} = await this.requestUploadUrl(name, signal);
+		await this.cancelOnAbort(task, () =>
+			uploader.uploadFile(
+				uploadUrl,
+				content,
+				(p, details) => reportProgress(p / 2, details),
+				undefined,
+				signal
+			)
 		);
-		await this.waitTask(task, p => reportProgress(0.5 + p / 2));
-		return await this.vod.getAsset(assetId);
+		await this.waitTask(task, p => reportProgress(0.5 + p / 2), signal);
+		return await this.vod.getAsset(assetId, signal);
+	}
+
+	/**
+	 * Finds an existing asset with the given hash of its contents.
+	 *
+	 * @param hash The hex-encoded hash of the file, e.g. obtained with
+	 * {@link Uploader.computeHash}.
+	 *
+	 * @param algorithm The algorithm of the hash. Defaults to `sha256`.
+	 *
+	 * @param signal An optional signal to abort the request.
+	 *
+	 * @returns The most recently created asset with the same contents that is
+	 * ready to be used, or `undefined` if there is none. The `hash` of the
+	 * returned asset is checked to include the given one.
+	 */
+	async findAssetByHash(
+		hash: string,
+		algorithm: string = hashAlgorithm,
+		signal?: AbortSignal
+	) {
+		const { items } = await this.vod.listAssets(
+			{
+				filters: { hash: { hash, algorithm }, phase: 'ready' },
+				limit: 1
+			},
+			signal
+		);
+		// the filter is also checked here, so a server that ignored it doesn't
+		// make an unrelated asset be reused in place of the file
+		const asset = items.length > 0 ? items[0] : undefined;
+		const matches = asset?.hash?.some(
+			h => h.hash === hash && h.algorithm === algorithm
+		);
+		return matches ? asset : undefined;
+	}
+
+	/**
+	 * Checks if a file was already uploaded to an asset that can be reused
+	 * instead of uploading the file again. Used by {@link createAsset}.
+	 *
+	 * @remarks
+	 * The file contents are hashed and looked up with {@link findAssetByHash}.
+	 * If an existing asset is found, the `onDuplicateAsset` callback is called
+	 * with it to decide whether it should be reused. Nothing is checked unless
+	 * the `deduplicate` option is enabled, nor if the content is a generic
+	 * node.js stream, which cannot be hashed without consuming it.
+	 *
+	 * @param content The file to be uploaded. Check
+	 * {@link Uploader.computeHash} for the supported contents.
+	 *
+	 * @param signal An optional signal to abort the check.
+	 *
+	 * @returns The existing asset to reuse, or `undefined` if the file should
+	 * be uploaded.
+	 */
+	async findDuplicateAsset(
+		content: File | NodeJS.ReadableStream | string,
+		signal?: AbortSignal
+	) {
+		if (!this.deduplicate || !isHashable(content)) {
+			return undefined;
+		}
+		const hash = await sha256Hex(content, signal);
+		const existing = await this.findAssetByHash(
+			hash,
+			hashAlgorithm,
+			signal
+		);
+		if (!existing || this.onDuplicateAsset?.(existing) === 'upload') {
+			return undefined;
+		}
+		return existing;
+	}
+
+	/**
+	 * Utility for creating an asset in the Livepeer API by importing the file
+	 * from a remote URL.
+	 *
+	 * @remarks
+	 * This is an alternative to {@link createAsset} for files that are already
+	 * available somewhere else, like in an S3 bucket or an HTTP CDN. The file
+	 * contents are fetched directly by the Livepeer API, so no bandwidth is
+	 * spent by your application in uploading it.
+	 *
+	 * @param name The name of the asset that will be created.
+	 *
+	 * @param url The URL of the file to be imported.
+	 *
+	 * @param reportProgress A function that will be called periodically with the
+	 * progress of the import task.
+	 *
+	 * @param signal An optional signal to abort waiting for the import.
+	 *
+	 * @returns The newly created and already processed/populated {@link Asset}.
+	 */
+	async createAssetFromUrl(
+		name: string,
+		url: string,
+		reportProgress?: (progress: number) => void,
+		signal?: AbortSignal
+	) {
+		const {
+			asset: { id: assetId },
+			task
+		} = await this.vod.importAsset(url, name, signal);
+		await this.waitTask(task, reportProgress, signal);
+		return await this.vod.getAsset(assetId, signal);
 	}
 
 	/**
@@ -349,27 +823,39 @@ export class Api {
 	 * video metadata, meaning that the {@link Task} that created it must have
 	 * already completed.
 	 *
-	 * @param sizeLimit The size limit to shrink the asset to. Defaults to 100MB.
+	 * @param target The marketplaces or platforms to normalize the asset for,
+	 * which default to OpenSea. Check the {@link targets} module for the
+	 * available targets. A number is taken as a size limit only, for backwards
+	 * compatibility.
 	 *
-	 * @returns An object with 2 fields `possible` and `desiredProfile`. The
-	 * `possible` field is a boolean indicating if the asset can actually be
-	 * normalized or not, i.e. if there is any acceptable bitrate to reduce its
-	 * size below the `sizeLimit`. The `desiredProfile` field is the video profile
-	 * that should be used to transcode the asset, if `possible`.
+	 * @returns An object with 3 fields `possible`, `desiredProfile` and
+	 * `violations`. The `possible` field is a boolean indicating if the asset can
+	 * actually be normalized or not, i.e. if transcoding can fix all the
+	 * violated constraints, like if there is any acceptable bitrate to reduce its
+	 * size below the limit. The `desiredProfile` field is the video profile that
+	 * should be used to transcode the asset, if `possible`. The `violations`
+	 * field lists exactly which constraints of each target the asset violates,
+	 * which are the reasons for transcoding it, like a codec or pixel format
+	 * that browsers can't play.
 	 */
-	checkNftNormalize(asset: Asset, sizeLimit?: number) {
-		let desiredProfile: FfmpegProfile | null = null;
+	checkNftNormalize(
+		asset: Asset,
+		target?: NormalizeTargetOption | number
+	): {
+		possible: boolean;
+		desiredProfile: FfmpegProfile | null;
+		violations: NormalizeViolation[];
+	} {
+		const targets =
+			typeof target === 'number'
+				? [{ name: 'Size limit', maxSize: target }]
+				: resolveNormalizeTargets(target);
+		const violations = targets.flatMap(t => checkNormalizeTarget(asset, t));
 		try {
-			const desiredBitrate = getDesiredBitrate(asset, sizeLimit);
-			if (desiredBitrate) {
-				desiredProfile = makeProfile(asset, desiredBitrate);
-			}
-			return {
-				possible: true,
-				desiredProfile
-			};
+			const desiredProfile = makeNormalizeProfile(asset, targets);
+			return { possible: true, desiredProfile, violations };
 		} catch (e) {
-			return { possible: false, desiredProfile };
+			return { possible: false, desiredProfile: null, violations };
 		}
 	}
 
@@ -378,32 +864,51 @@ export class Api {
 	 *
 	 * @remarks
 	 * Normalization means transcoding the asset to a better suitable format,
-	 * codec and quality. Currently, this means ensuring that the asset fits
-	 * within the limit of some NFT marketplaces like OpenSea, which has a strict
+	 * codec and quality. Currently, this means ensuring that the asset satisfies
+	 * the constraints of the NFT marketplaces it is meant for, like the strict
 	 * {@link
 	 * https://support.opensea.io/hc/en-us/articles/360061943574-What-file-formats-can-I-use-to-make-NFTs-Is-there-a-maximum-size-
-	 * | file size limit of 100 MB}. Check the {@link getDesiredBitrate} and
-	 * {@link makeProfile} for more information on how that calculation is made.
+	 * | file size limit of 100 MB} of OpenSea, and that the video can be played
+	 * in the browsers, like converting HEVC, ProRes or 10-bit videos to H.264.
+	 * Check the {@link targets} module for more information on how that
+	 * calculation is made.
+	 *
+	 * @remarks
+	 * The options can also be passed positionally as `reportProgress`,
+	 * `sizeLimit` and `signal`, for backwards compatibility.
 	 *
 	 * @param asset The asset to normalize. It must have been fully populated with
 	 * the video metadata, meaning that the {@link Task} that created it must have
 	 * already completed.
 	 *
-	 * @param reportProgress A function that will be called periodically with the
-	 * progress of the transcode task.
+	 * @param opts Options for the normalization, or a function that will be
+	 * called periodically with the progress of the transcode task.
 	 *
-	 * @param sizeLimit The size limit to shrink the asset to. Defaults to 100MB.
+	 * @param sizeLimit The size limit to shrink the asset to, if `opts` is not
+	 * an object. Defaults to the limit of OpenSea.
 	 *
-	 * @returns The new asset created with the normalized video spec.
+	 * @param signal An optional signal to abort waiting for the transcode, if
+	 * `opts` is not an object.
+	 *
+	 * @returns The new asset created with the normalized video spec, or the same
+	 * asset if it did not require any processing or could not be normalized.
 	 */
 	async nftNormalize(
 		asset: Asset,
-		reportProgress?: (progress: number) => void,
-		sizeLimit?: number
+		opts?: NftNormalizeOptions | ((progress: number) => void),
+		sizeLimit?: number,
+		signal?: AbortSignal
 	) {
+		const { target, reportProgress } =
+			typeof opts === 'object'
+				? opts
+				: { target: sizeLimit, reportProgress: opts };
+		if (typeof opts === 'object') {
+			signal = opts.signal;
+		}
 		const { possible, desiredProfile } = this.checkNftNormalize(
 			asset,
-			sizeLimit
+			target
 		);
 		if (!possible || !desiredProfile) {
 			return asset;
@@ -412,10 +917,11 @@ export class Api {
 		const transcode = await this.vod.transcodeAsset(
 			asset.id,
 			`${asset.name} (${desiredProfile.name})`,
-			desiredProfile
+			desiredProfile,
+			signal
 		);
-		await this.waitTask(transcode.task, reportProgress);
-		return await this.vod.getAsset(transcode.asset.id);
+		await this.waitTask(transcode.task, reportProgress, signal);
+		return await this.vod.getAsset(transcode.asset.id, signal);
 	}
 
 	/**
@@ -431,74 +937,578 @@ export class Api {
 	 * @remarks
 	 * You can also customize the NFT metadata created by passing the
 	 * `nftMetadata` argument to this function. This will be deep merged with the
-	 * default metadata created for the NFT.
+	 * default metadata created for the NFT. Use {@link previewNftMetadata} to
+	 * check what the final metadata will look like before exporting, or the
+	 * {@link metadata.NftMetadataBuilder} to build it.
+	 *
+	 * @remarks
+	 * The files are pinned in IPFS by Livepeer's Piñata account by default. To
+	 * have them pinned in your own account instead, pass your credentials in the
+	 * `pinata` argument.
+	 *
+	 * @remarks
+	 * If a `pinner` is configured, the NFT metadata is built locally and pinned
+	 * with it instead, after the video file is exported and pinned as well.
+	 * See {@link pinNftMetadata}.
+	 *
+	 * @remarks
+	 * With a `pinner` and unless disabled with the `poster` option, the `image`
+	 * of the NFT is set to a poster generated from a frame of the video, if no
+	 * custom `image` is provided in the `nftMetadata`. See
+	 * {@link prepareNftMetadata}.
 	 *
 	 * @param assetId The ID of the asset to export.
 	 *
 	 * @param nftMetadata The custom overrides for fields in the NFT metadata. You
 	 * can change the value of any field by specifying it here, or delete any
-	 * default field by specifying `null`.
+	 * default field by specifying `null`. Throws a
+	 * {@link metadata.NftMetadataError} if they are invalid.
 	 *
 	 * @param reportProgress A function that will be called periodically with the
 	 * progress of the export task.
 	 *
+	 * @param pinata Optional credentials for pinning the files in your own
+	 * Piñata account. See {@link api.PinataCredentials}.
+	 *
+	 * @param signal An optional signal to abort waiting for the export.
+	 *
 	 * @returns The information about the files exported to IPFS. Use the
 	 * `nftMetadataUrl` field as the `tokenUri` for minting the NFT of the asset.
+	 * Throws a {@link validation.ValidationError} if the completed task is
+	 * missing any of the exported files.
 	 */
 	async exportToIPFS(
 		assetId: string,
-		nftMetadata?: string | Record<string, any>,
-		reportProgress?: (progress: number) => void
+		nftMetadata?: string | NftMetadataOverrides,
+		reportProgress?: (progress: number) => void,
+		pinata?: PinataCredentials,
+		signal?: AbortSignal
 	) {
-		if (typeof nftMetadata === 'string') {
-			nftMetadata = JSON.parse(nftMetadata) as Record<string, any>;
+		const overrides = await this.prepareNftMetadata(
+			assetId,
+			nftMetadata,
+			signal
+		);
+		let { task } = await this.vod.exportAsset(
+			assetId,
+			{
+				ipfs: {
+					nftMetadata: this.pinner ? undefined : overrides,
+					pinata
+				}
+			},
+			signal
+		);
+		task = await this.waitTask(task, reportProgress, signal);
+		const ipfs = validateExportToIPFSOutput(task.output?.export?.ipfs);
+		if (!this.pinner) {
+			return ipfs;
+		}
+		return await this.pinNftMetadata(assetId, ipfs, overrides, signal);
+	}
+
+	/**
+	 * Creates a poster image for the NFT of an asset, from a frame of the video.
+	 *
+	 * @remarks
+	 * The poster is obtained from the thumbnail endpoint of the Livepeer CDN.
+	 * If a `pinner` is configured, the image is pinned in IPFS next to the
+	 * video. Otherwise it cannot be pinned, so its CDN URL is returned instead.
+	 * That URL is not immutable, so it is never used as the `image` of the NFT
+	 * unless you set it explicitly.
+	 *
+	 * @remarks
+	 * Each poster is created only once by the same `Api` instance, so preparing
+	 * the NFT metadata for a preview and then for the export pins it once.
+	 *
+	 * @param asset The asset to create the poster of, or its ID to fetch it
+	 * from the API.
+	 *
+	 * @param time The time in seconds of the frame to use. Defaults to a third
+	 * of the duration of the video, to skip any intro or fade from black.
+	 *
+	 * @param signal An optional signal to abort creating the poster.
+	 *
+	 * @returns The URL of the poster, to be used as the `image` of the NFT.
+	 */
+	async createPoster(
+		asset: Asset | string,
+		time?: number,
+		signal?: AbortSignal
+	) {
+		if (typeof asset === 'string') {
+			asset = await this.vod.getAsset(asset, signal);
+		}
+		const duration = asset.videoSpec?.duration;
+		const url = getPosterUrl(
+			asset,
+			time ?? (duration ? Math.floor(duration / 3) : undefined),
+			this.playback
+		);
+		const { pinner } = this;
+		if (!pinner) {
+			return url;
+		}
+		let pinned = this.pinnedPosters.get(url);
+		if (!pinned) {
+			pinned = this.pinPoster(pinner, url, signal);
+			this.pinnedPosters.set(url, pinned);
+			pinned.catch(() => this.pinnedPosters.delete(url));
+		}
+		return await pinned;
+	}
+
+	private async pinPoster(pinner: Pinner, url: string, signal?: AbortSignal) {
+		const image = await makeRequest<Uint8Array>(
+			this.vod.transport,
+			{ method: 'get', url, responseType: 'binary', signal },
+			defaultRetryPolicy
+		);
+		const cid = await pinner.add(image, 'poster.jpg', signal);
+		return `ipfs://${cid}`;
+	}
+
+	/**
+	 * Prepares the custom overrides for the NFT metadata of an asset to be
+	 * exported, as done by {@link exportToIPFS}.
+	 *
+	 * @remarks
+	 * The overrides are parsed and validated, and the `image` is set to a poster
+	 * created with {@link createPoster} if enabled by the `poster` option and
+	 * no custom `image` is provided. Like any other field, setting the `image`
+	 * to `null` deletes it from the metadata. To keep the default image instead
+	 * of a poster, set it to {@link metadata.defaultNftImage}.
+	 *
+	 * @param asset The asset to export, or its ID to fetch it from the API.
+	 *
+	 * @param nftMetadata The custom overrides for fields in the NFT metadata, as
+	 * accepted by {@link exportToIPFS}.
+	 *
+	 * @param signal An optional signal to abort creating the poster.
+	 *
+	 * @returns The overrides to send in the export. Throws a
+	 * {@link metadata.NftMetadataError} if they are invalid.
+	 */
+	async prepareNftMetadata(
+		asset: Asset | string,
+		nftMetadata?: string | NftMetadataOverrides,
+		signal?: AbortSignal
+	): Promise<NftMetadataOverrides | undefined> {
+		const overrides = parseNftMetadata(nftMetadata);
+		if (!this.poster || overrides?.image !== undefined) {
+			return overrides;
+		}
+		const image = await this.createPoster(asset, this.poster.time, signal);
+		return { ...overrides, image };
+	}
+
+	/**
+	 * Pins the video file exported to IPFS and the NFT metadata built locally
+	 * with the configured `pinner`. This is called by {@link exportToIPFS}
+	 * after the export when a `pinner` is configured.
+	 *
+	 * @param asset The exported asset, or its ID to fetch it from the API.
+	 *
+	 * @param exported The output of the export of the asset to IPFS.
+	 *
+	 * @param nftMetadata The custom overrides for fields in the NFT metadata, as
+	 * accepted by {@link exportToIPFS}.
+	 *
+	 * @param signal An optional signal to abort pinning the files.
+	 *
+	 * @returns The information about the pinned files. Check
+	 * {@link pinning.pinNftMetadata} for more details.
+	 */
+	async pinNftMetadata(
+		asset: Asset | string,
+		exported: ExportToIPFSOutput,
+		nftMetadata?: string | NftMetadataOverrides,
+		signal?: AbortSignal
+	) {
+		if (!this.pinner) {
+			throw new Error('No pinner configured');
+		}
+		if (typeof asset === 'string') {
+			asset = await this.vod.getAsset(asset, signal);
+		}
+		return await pinNftMetadata(
+			this.pinner,
+			asset,
+			exported,
+			parseNftMetadata(nftMetadata),
+			signal
+		);
+	}
+
+	/**
+	 * Previews the final metadata of the NFT that {@link exportToIPFS} will
+	 * export for an asset, with the custom overrides merged into the defaults.
+	 *
+	 * @remarks
+	 * The URL of the video file in IPFS is only known after the export, so it
+	 * is a {@link metadata.videoFileUrlPlaceholder} in the fields where it is
+	 * used if the asset has not been exported yet.
+	 *
+	 * @param asset The asset to export, or its ID to fetch it from the API.
+	 *
+	 * @param nftMetadata The custom overrides for fields in the NFT metadata, as
+	 * accepted by {@link exportToIPFS}.
+	 *
+	 * @param signal An optional signal to abort fetching the asset.
+	 *
+	 * @returns The final {@link metadata.NftMetadata}.
+	 */
+	async previewNftMetadata(
+		asset: Asset | string,
+		nftMetadata?: string | NftMetadataOverrides,
+		signal?: AbortSignal
+	) {
+		if (typeof asset === 'string') {
+			asset = await this.vod.getAsset(asset, signal);
+		}
+		return previewNftMetadata(asset, nftMetadata);
+	}
+
+	/**
+	 * Exports an asset to a custom URL, like your own storage endpoint.
+	 *
+	 * @remarks
+	 * The Livepeer API will make a single HTTP request to the specified `url`
+	 * with the raw contents of the video file as the body. This can be used with
+	 * a pre-signed S3 URL for example, or any other service that accepts file
+	 * uploads in a single request.
+	 *
+	 * @param assetId The ID of the asset to export.
+	 *
+	 * @param destination The destination of the export. The `method` defaults to
+	 * `PUT` and any `headers` will be added to the export request.
+	 *
+	 * @param reportProgress A function that will be called periodically with the
+	 * progress of the export task.
+	 *
+	 * @param signal An optional signal to abort waiting for the export.
+	 *
+	 * @returns Information about the export, including the completed task.
+	 */
+	async exportToUrl(
+		assetId: string,
+		destination: CustomExportParams,
+		reportProgress?: (progress: number) => void,
+		signal?: AbortSignal
+	): Promise<ExportToUrlOutput> {
+		const { url, method = 'PUT', headers } = destination;
+		let { task } = await this.vod.exportAsset(
+			assetId,
+			{ custom: { url, method, headers } },
+			signal
+		);
+		task = await this.waitTask(task, reportProgress, signal);
+		return { url, method, task };
+	}
+
+	/**
+	 * Gets the information for playing back an asset from the Livepeer CDN, like
+	 * the HLS and MP4 sources, a poster image and an embeddable player URL.
+	 *
+	 * @remarks
+	 * This can be used to preview the video in your application before it is
+	 * exported and minted. Check {@link getIpfsPlaybackInfo} for playing back
+	 * the file exported to IPFS instead.
+	 *
+	 * @param asset The asset to play back, or its ID to fetch it from the API.
+	 *
+	 * @param signal An optional signal to abort fetching the asset.
+	 *
+	 * @returns The {@link playback.PlaybackInfo} for the asset.
+	 */
+	async getPlaybackInfo(asset: Asset | string, signal?: AbortSignal) {
+		if (typeof asset === 'string') {
+			asset = await this.vod.getAsset(asset, signal);
+		}
+		return getAssetPlaybackInfo(asset, this.playback);
+	}
+
+	/**
+	 * Gets the information for playing back a video file exported to IPFS,
+	 * through an HTTP gateway.
+	 *
+	 * @param ipfs The output of {@link exportToIPFS}, or the URL or CID of the
+	 * video file in IPFS.
+	 *
+	 * @returns The {@link playback.PlaybackInfo} for the IPFS file.
+	 */
+	getIpfsPlaybackInfo(ipfs: ExportToIPFSOutput | string) {
+		return getIpfsPlaybackInfo(ipfs, this.playback);
+	}
+
+	/**
+	 * Deletes all the intermediate assets related to the specified one, like the
+	 * original source asset and any other transcoded versions of it.
+	 *
+	 * @remarks
+	 * Assets are related through their `sourceAssetId` field, which points to
+	 * the root asset that was originally uploaded. This is meant to be called
+	 * once the NFT has been minted, to avoid keeping the leftovers of the
+	 * {@link nftNormalize} process in your account.
+	 *
+	 * @param asset The asset to keep, normally the one that was exported and
+	 * minted as the NFT.
+	 *
+	 * @param keepSource Whether to keep the original source asset, deleting only
+	 * the other transcoded versions.
+	 *
+	 * @param signal An optional signal to abort the cleanup. Assets deleted
+	 * before the abort are not restored.
+	 *
+	 * @returns The IDs of the deleted assets.
+	 */
+	async cleanupIntermediates(
+		asset: Asset,
+		keepSource = false,
+		signal?: AbortSignal
+	) {
+		const rootId = asset.sourceAssetId ?? asset.id;
+		const toDelete: string[] = [];
+		if (rootId !== asset.id && !keepSource) {
+			toDelete.push(rootId);
+		}
+		const iter = this.vod.iterateAssets(
+			{ sourceAssetId: rootId },
+			undefined,
+			signal
+		);
+		for await (const other of iter) {
+			// double check the filter, since deleting an unrelated asset because
+			// of a server that ignored it would not be recoverable
+			const related = other.sourceAssetId === rootId;
+			if (related && other.id !== asset.id && other.id !== rootId) {
+				toDelete.push(other.id);
+			}
+		}
+		for (const id of toDelete) {
+			await this.vod.deleteAsset(id, signal);
+		}
+		return toDelete;
+	}
+
+	/**
+	 * Lists all the tasks for the specified asset that are still pending, i.e.
+	 * that have not completed nor failed yet.
+	 *
+	 * @remarks
+	 * This is useful for example to check if there is already an export to IPFS
+	 * in progress for an asset before starting a new one. Each returned task can
+	 * be waited for with {@link waitTask}.
+	 *
+	 * @param assetId The ID of the input asset of the tasks.
+	 *
+	 * @param type An optional task type to filter for, like `export`.
+	 *
+	 * @param signal An optional signal to abort the listing.
+	 *
+	 * @returns The list of all the pending tasks matching the filters.
+	 */
+	async listPendingTasks(
+		assetId: string,
+		type?: Task['type'],
+		signal?: AbortSignal
+	) {
+		const tasks: Task[] = [];
+		const iter = this.vod.iterateTasks(
+			{
+				inputAssetId: assetId,
+				type,
+				phase: ['pending', 'waiting', 'running']
+			},
+			undefined,
+			signal
+		);
+		for await (const task of iter) {
+			tasks.push(task);
+		}
+		return tasks;
+	}
+
+	/**
+	 * Watches a task until it finishes, yielding a snapshot of the task every
+	 * time its status changes.
+	 *
+	 * @remarks
+	 * Unlike the `reportProgress` callback of {@link waitTask}, this provides the
+	 * full `Task` objects, so it can be used for showing the phase transitions
+	 * (e.g. `pending` to `waiting` to `running`), the update timestamps and error
+	 * messages as they happen. The first snapshot is the given `task` itself and
+	 * the iteration ends after yielding the task in a terminal phase (any of the
+	 * {@link api.terminalTaskPhases}). It does not throw for failed or cancelled
+	 * tasks, check the `status` of the last snapshot instead.
+	 *
+	 * @remarks
+	 * The task is fetched according to the {@link PollingStrategy}, or driven by
+	 * the `webhooks` receiver if configured (check {@link waitTask}).
+	 *
+	 * @example
+	 * ```ts
+	 * for await (const snapshot of api.watchTask(task)) {
+	 *   const { phase, progress, updatedAt } = snapshot.status ?? {};
+	 *   console.log(new Date(updatedAt ?? 0), phase, progress);
+	 * }
+	 * ```
+	 *
+	 * @param task - The task object that should be watched.
+	 * @param signal - An optional signal to stop watching the task, which makes
+	 * the iteration throw an {@link api.AbortError}. The task is also cancelled
+	 * in the API if the `cancelTasksOnAbort` option is set.
+	 * @param polling - Optional polling strategy for this call, which overrides
+	 * the fields of the `polling` option of the `Api`. A {@link TaskTimeoutError}
+	 * is thrown if the task does not finish within its `maxWait`.
+	 *
+	 * @returns An async iterator of the `Task` snapshots.
+	 */
+	async *watchTask(
+		task: Task,
+		signal?: AbortSignal,
+		polling?: PollingStrategy
+	): AsyncGenerator<Task, void, undefined> {
+		const {
+			interval,
+			backoff,
+			maxInterval,
+			maxWait,
+			stallTimeout,
+			onStall
+		} = { ...defaultPollingStrategy, ...this.polling, ...polling };
+		const startedAt = Date.now();
+		let progressedAt = startedAt;
+		let stallReportedAt = startedAt;
+		let nextInterval = interval;
+		yield task;
+		while (!isTaskFinished(task)) {
+			const now = Date.now();
+			if (now - stallReportedAt >= stallTimeout) {
+				stallReportedAt = now;
+				onStall?.(task, now - progressedAt);
+			}
+			const remaining = (maxWait ?? Infinity) - (now - startedAt);
+			if (remaining <= 0) {
+				throw new TaskTimeoutError(task, now - startedAt);
+			}
+			const delay = Math.min(nextInterval, remaining);
+			nextInterval = Math.min(maxInterval, nextInterval * backoff);
+
+			const previous = task;
+			task = await this.cancelOnAbort(previous, async () => {
+				throwIfAborted(signal);
+				await this.waitTaskUpdate(previous, delay, remaining, signal);
+				return await this.vod.getTask(previous.id, signal);
+			});
+
+			const [prev, curr] = [previous.status, task.status];
+			if (
+				prev?.phase !== curr?.phase ||
+				prev?.progress !== curr?.progress
+			) {
+				progressedAt = stallReportedAt = Date.now();
+				nextInterval = interval;
+			}
+			if (JSON.stringify(prev) !== JSON.stringify(curr)) {
+				yield task;
+			}
 		}
-		let { task } = await this.vod.exportAsset(assetId, {
-			ipfs: { nftMetadata }
-		});
-		task = await this.waitTask(task, reportProgress);
-		const ipfs = task.output?.export?.ipfs;
-		return ipfs as NonNullable<typeof ipfs>;
 	}
 
 	/**
 	 * Wait until a specified task is completed.
 	 *
 	 * @remarks
-	 * This will simply call the `getTask` API repeatedly until the task is either
-	 * successful or failed. For a promise-like API this will also throw an
-	 * exception in case the task is failed.
+	 * This will simply call the `getTask` API repeatedly until the task is in
+	 * any of the {@link api.terminalTaskPhases}. For a promise-like API this will
+	 * also throw an exception in case the task is failed or cancelled. The
+	 * polling interval and a timeout can be configured with a
+	 * {@link PollingStrategy}. For more details about the task updates, use
+	 * {@link watchTask} instead.
+	 *
+	 * @remarks
+	 * If a `webhooks` receiver was configured, the task is only fetched again
+	 * when a webhook for it is received, or after a long fallback interval in
+	 * case a webhook gets lost.
 	 *
 	 * @param task - The task object that should be waited for.
 	 * @param reportProgress - An optional callback to be called with the progress
 	 * of the running task, which is a number for 0 to 1. Useful for showing some
 	 * UI feedback to users.
+	 * @param signal - An optional signal to stop waiting for the task, which
+	 * makes this throw an {@link api.AbortError}. The task is also cancelled in
+	 * the API if the `cancelTasksOnAbort` option is set.
+	 * @param polling - Optional polling strategy for this call, which overrides
+	 * the fields of the `polling` option of the `Api`. A {@link TaskTimeoutError}
+	 * is thrown if the task does not finish within its `maxWait`.
 	 *
 	 * @returns The finished `Task` object also containing the task output. Check
 	 * the `output` field for the respective output depending on the task `type`.
 	 */
-	async waitTask(task: Task, reportProgress?: (progress: number) => void) {
+	async waitTask(
+		task: Task,
+		reportProgress?: (progress: number) => void,
+		signal?: AbortSignal,
+		polling?: PollingStrategy
+	) {
 		let lastProgress = 0;
-		while (
-			task.status?.phase !== 'completed' &&
-			task.status?.phase !== 'failed'
-		) {
+		for await (const snapshot of this.watchTask(task, signal, polling)) {
+			task = snapshot;
 			const progress = task.status?.progress;
 			if (progress && progress !== lastProgress) {
 				if (reportProgress) reportProgress(progress);
 				lastProgress = progress;
 			}
-			new Promise(resolve => setTimeout(resolve, 2500));
-			task = await this.vod.getTask(task.id ?? '');
 		}
 
-		if (task.status.phase === 'failed') {
+		if (task.status?.phase === 'failed') {
 			throw new Error(
 				`${task.type} task failed. error: ${task.status.errorMessage}`
 			);
 		}
+		if (task.status?.phase === 'cancelled') {
+			throw new Error(`${task.type} task was cancelled`);
+		}
 		return task;
 	}
+
+	// Waits for the next time the task should be fetched, which is after the
+	// polling `delay` or, if webhooks are configured, on the next webhook for it
+	// or after the fallback interval (cut short by the `remaining` wait time).
+	private async waitTaskUpdate(
+		task: Task,
+		delay: number,
+		remaining: number,
+		signal?: AbortSignal
+	) {
+		const { webhooks } = this;
+		if (!webhooks) {
+			return await sleep(delay, signal);
+		}
+		// an update might have been received before we started waiting
+		const latest = webhooks.latestTask(task.id);
+		const updatedAt = (t?: Task) => t?.status?.updatedAt ?? 0;
+		if (updatedAt(latest) > updatedAt(task)) {
+			return;
+		}
+		const timeout = Math.min(webhookFallbackInterval, remaining);
+		await webhooks.nextTaskUpdate(task.id, timeout, signal);
+	}
+
+	// Runs the operation, cancelling the task in the API if it gets aborted and
+	// the `cancelTasksOnAbort` option is set.
+	private async cancelOnAbort<T>(task: Task, op: () => Promise<T>) {
+		try {
+			return await op();
+		} catch (err) {
+			if (err instanceof AbortError && this.cancelTasksOnAbort) {
+				// best-effort, the abort error is more relevant to the caller
+				await this.vod.cancelTask(task.id).catch(() => {});
+			}
+			throw err;
+		}
+	}
 }
 
 /**
@@ -541,6 +1551,8 @@ export type Web3Options = {
 export class Web3 {
 	private ethProvider?: ethers.providers.JsonRpcProvider;
 	private chainId: string;
+	private sendQueues: Record<string, Promise<unknown>> = {};
+	private nextNonces: Record<string, number> = {};
 
 	/**
 	 * Creates a new `Web3` instance with the provided options.
@@ -570,6 +1582,12 @@ export class Web3 {
 	 * transaction. Here it means that you should not provide the `to` argument
 	 * and it will be obtained automatically from the provider.
 	 *
+	 * @remarks
+	 * This can be called concurrently, e.g. for minting many NFTs at once. The
+	 * transactions from the same signer are sent one at a time with sequential
+	 * nonces, so they do not replace each other in the mempool. Only sending is
+	 * serialized, and the transactions can still be confirmed in parallel.
+	 *
 	 * @param tokenUri The URI of the NFT. This is normally the `nftMetadataUrl`
 	 * field returned by {@link Api.exportToIPFS}.
 	 *
@@ -611,8 +1629,11 @@ export class Web3 {
 			videoNftAbi,
 			signer
 		);
-		const owner = to ?? (await signer.getAddress());
-		return await videoNft.mint(owner, tokenUri);
+		const sender = await signer.getAddress();
+		const owner = to ?? sender;
+		return await this.sendSerialized(signer, sender, nonce =>
+			videoNft.mint(owner, tokenUri, { nonce })
+		);
 	}
 
 	/**
@@ -625,16 +1646,17 @@ export class Web3 {
 	 * such event but you'll not be able to call this function to get the minted
 	 * token ID.
 	 *
-	 * @param tx The transaction receipt as returned by {@link mintNft}.
+	 * @param tx The transaction receipt as returned by {@link mintNft}, or only
+	 * its hash, e.g. for resuming the minting process after a restart.
 	 *
 	 * @returns Information about the just minted NFT.
 	 */
 	async getMintedNftInfo(
-		tx: ethers.ContractTransaction
+		tx: ethers.ContractTransaction | string
 	): Promise<MintedNftInfo> {
-		const receipt = await tx.wait();
+		const receipt = await this.waitTransaction(tx);
 		const contractAddress = receipt.to;
-		const mintEv = receipt.events?.find(ev => ev?.event === 'Mint')?.args;
+		const mintEv = findMintEvent(receipt);
 		const tokenId =
 			mintEv && mintEv.length > 3
 				? (mintEv[3].toNumber() as number)
@@ -657,8 +1679,171 @@ export class Web3 {
 		}
 		return info;
 	}
+
+	// Sends a transaction after any other ones from the same sender, with the
+	// next nonce. The pending transaction count alone is not enough since some
+	// nodes take a while to include the just sent transactions in it.
+	private async sendSerialized<T>(
+		signer: ethers.Signer,
+		sender: string,
+		send: (nonce: number) => Promise<T>
+	) {
+		const previous = this.sendQueues[sender] ?? Promise.resolve();
+		const result = previous
+			.catch(() => {})
+			.then(async () => {
+				const pending = await signer.getTransactionCount('pending');
+				const nonce = Math.max(pending, this.nextNonces[sender] ?? 0);
+				try {
+					const tx = await send(nonce);
+					this.nextNonces[sender] = nonce + 1;
+					return tx;
+				} catch (err) {
+					// the nonce may not have been used, so get it from the node again
+					delete this.nextNonces[sender];
+					throw err;
+				}
+			});
+		this.sendQueues[sender] = result;
+		return await result;
+	}
+
+	private async waitTransaction(
+		tx: ethers.ContractTransaction | string
+	): Promise<ethers.ContractReceipt> {
+		if (typeof tx !== 'string') {
+			return await tx.wait();
+		}
+		if (!this.ethProvider) {
+			throw new Error('No Ethereum provider configured');
+		}
+		const receipt = await this.ethProvider.waitForTransaction(tx);
+		if (receipt.status === 0) {
+			throw new Error(`Transaction ${tx} failed`);
+		}
+		return receipt;
+	}
 }
 
+// Finds the `Mint` event in the receipt, parsing the raw logs if the receipt
+// was not obtained through the contract.
+function findMintEvent(receipt: ethers.ContractReceipt) {
+	const event = receipt.events?.find(ev => ev?.event === 'Mint');
+	if (event) {
+		return event.args;
+	}
+	const iface = new ethers.utils.Interface(videoNftAbi);
+	for (const log of receipt.logs) {
+		try {
+			const parsed = iface.parseLog(log);
+			if (parsed.name === 'Mint') {
+				return parsed.args;
+			}
+		} catch (err) {
+			// not an event from the NFT contract
+		}
+	}
+	return undefined;
+}
+
+/**
+ * A video to be minted as an NFT by {@link FullMinter.createNfts}. Check
+ * {@link FullMinter.createNft} for more details about each field.
+ */
+export type BatchMintItem = {
+	file: File | NodeJS.ReadableStream | string;
+	name: string;
+	forceUpload?: boolean;
+	skipNormalize?: boolean;
+	normalizeTarget?: NormalizeTargetOption;
+	nftMetadata?: string | NftMetadataOverrides;
+	cleanupIntermediates?: boolean;
+	mint?: {
+		contractAddress?: string;
+		to?: string;
+	};
+	/**
+	 * An optional store to save the checkpoints of the process for this item.
+	 */
+	store?: CheckpointStore;
+};
+
+/**
+ * The outcome of minting one of the items of a batch.
+ */
+export type BatchMintResult = {
+	/**
+	 * The item that this is the result of.
+	 */
+	item: BatchMintItem;
+	/**
+	 * Information about the minted NFT, if it succeeded.
+	 */
+	info?: MintedNftInfo;
+	/**
+	 * The error that made the process fail for this item, if any.
+	 */
+	error?: any;
+	/**
+	 * The last state of the process for this item. Failed items can be retried
+	 * from where they stopped by passing it to {@link FullMinter.resume}.
+	 */
+	state: MintPipelineState;
+};
+
+/**
+ * The aggregate progress of a batch, as reported by
+ * {@link FullMinter.createNfts}.
+ */
+export type BatchMintProgress = {
+	/**
+	 * The total number of items in the batch.
+	 */
+	total: number;
+	/**
+	 * The number of items that have been successfully minted.
+	 */
+	minted: number;
+	/**
+	 * The number of items that have failed.
+	 */
+	failed: number;
+	/**
+	 * The overall progress of the batch, from 0 to 1.
+	 */
+	progress: number;
+	/**
+	 * The progress of each item, from 0 to 1, in the same order as the items.
+	 */
+	items: number[];
+};
+
+/**
+ * Options for {@link FullMinter.createNfts}.
+ */
+export type BatchMintOptions = {
+	/**
+	 * The maximum number of items to process at the same time. Defaults to 4.
+	 */
+	concurrency?: number;
+	/**
+	 * Optional credentials for pinning the files in your own Piñata account.
+	 * Check {@link Api.exportToIPFS}.
+	 */
+	pinata?: PinataCredentials;
+	/**
+	 * A function that will be called periodically with the aggregate progress
+	 * of the batch.
+	 */
+	reportProgress?: (progress: BatchMintProgress) => void;
+	/**
+	 * An optional signal to abort the items that have not been minted yet.
+	 */
+	signal?: AbortSignal;
+};
+
+const defaultBatchConcurrency = 4;
+
 /**
  * This encapsulates all the parts necessary for creating a Video NFT in a
  * single environment.
@@ -693,14 +1878,14 @@ export class FullMinter {
 	 * @param web3 The configuration for the {@link Web3} component.
 	 */
 	constructor(
-		api: ApiOptions,
+		api: MinterApiOptions,
 		web3: {
 			ethereum: EthereumOrProvider;
 			chainId: string | number;
 		}
 	) {
-		this.uploader = new Uploader();
 		this.api = new Api(api);
+		this.uploader = new Uploader(this.api.vod.transport);
 		this.web3 = new Web3(web3);
 	}
 
@@ -709,8 +1894,40 @@ export class FullMinter {
 	 * function to have a better idea of the whole process.
 	 *
 	 * @remarks
-	 * The `filename` parameter **must** be provided in a node.js environment, and
-	 * **cannot** be provided in a browser environment.
+	 * The `file` parameter **must** be provided in a node.js environment, and
+	 * **cannot** be a filename in a browser environment.
+	 *
+	 * @remarks
+	 * The `file` can also be an HTTP(S) URL, in which case the asset is imported
+	 * directly from it by the Livepeer API through {@link Api.createAssetFromUrl}
+	 * instead of being uploaded. This works from any environment.
+	 *
+	 * @remarks
+	 * If the `deduplicate` option of the {@link Api} is enabled, files that were
+	 * already uploaded before are not uploaded again, reusing the existing asset
+	 * instead. Set `forceUpload` to always upload the file. See
+	 * {@link Api.findDuplicateAsset}.
+	 *
+	 * @remarks
+	 * The asset is normalized for the marketplaces in `normalizeTarget`, which
+	 * defaults to OpenSea, unless `skipNormalize` is set. See
+	 * {@link Api.nftNormalize}.
+	 *
+	 * @remarks
+	 * Set `cleanupIntermediates` to delete the original and any intermediate
+	 * assets from the Livepeer API after the NFT is minted. See
+	 * {@link Api.cleanupIntermediates}.
+	 *
+	 * @remarks
+	 * Pass a `signal` to abort the process at any step before the mint
+	 * transaction is sent. Once sent, the transaction cannot be aborted anymore
+	 * and the `signal` is ignored for the rest of the process.
+	 *
+	 * @remarks
+	 * Pass a `store` to save a checkpoint of the process after every step. If
+	 * it is interrupted, e.g. by a crash in the middle of a long transcode, it
+	 * can be continued later with {@link resume} and the saved state. See
+	 * {@link pipeline} for more details.
 	 *
 	 * @param args Aggregated arguments for all the functions that are called
 	 * along the process.
@@ -720,31 +1937,202 @@ export class FullMinter {
 	async createNft(args: {
 		file?: File | NodeJS.ReadableStream | string;
 		name: string;
+		forceUpload?: boolean;
 		skipNormalize?: boolean;
-		nftMetadata?: string | Record<string, any>;
+		normalizeTarget?: NormalizeTargetOption;
+		nftMetadata?: string | NftMetadataOverrides;
+		pinata?: PinataCredentials;
+		cleanupIntermediates?: boolean;
 		mint?: {
 			contractAddress?: string;
 			to?: string;
 		};
+		store?: CheckpointStore;
+		signal?: AbortSignal;
 	}) {
-		const file =
-			typeof args.file === 'string'
-				? this.uploader.openFile(args.file)
-				: args.file ?? (await this.uploader.pickFile());
-		let asset = await this.api.createAsset(args.name, file);
-		if (!args.skipNormalize) {
-			asset = await this.api.nftNormalize(asset);
-		}
-		const { nftMetadataUrl } = await this.api.exportToIPFS(
-			asset.id,
-			args.nftMetadata
-		);
-		const { contractAddress, to } = args?.mint ?? {};
-		const tx = await this.web3.mintNft(
-			nftMetadataUrl ?? '',
-			contractAddress,
-			to
+		const { file, pinata, store, signal, ...rest } = args;
+		const pipeline = this.newPipeline(rest, file, store);
+		return await this.runPipeline(pipeline, {
+			file: typeof file === 'string' ? undefined : file,
+			pinata,
+			signal
+		});
+	}
+
+	/**
+	 * Mints many videos as NFTs at once, like for an entire drop.
+	 *
+	 * @remarks
+	 * Each item goes through the same process as in {@link createNft}, with up
+	 * to `concurrency` items being uploaded, normalized and exported at the
+	 * same time. The mint transactions are sent one at a time with sequential
+	 * nonces, as described in {@link Web3.mintNft}.
+	 *
+	 * @remarks
+	 * A failure in one of the items does not abort the rest of the batch. The
+	 * error is returned in the result of the item instead, together with the
+	 * state for retrying it later with {@link resume}.
+	 *
+	 * @param items The videos to mint. Their `file` must always be provided.
+	 *
+	 * @param opts Options for the whole batch.
+	 *
+	 * @returns The results of each item, in the same order as the `items`.
+	 */
+	async createNfts(
+		items: BatchMintItem[],
+		opts: BatchMintOptions = {}
+	): Promise<BatchMintResult[]> {
+		const {
+			concurrency = defaultBatchConcurrency,
+			pinata,
+			reportProgress,
+			signal
+		} = opts;
+		if (!(concurrency >= 1)) {
+			throw new Error(`Invalid concurrency: ${concurrency}`);
+		}
+		const results: BatchMintResult[] = new Array(items.length);
+		const progress = items.map(() => 0);
+		let minted = 0;
+		let failed = 0;
+		const report = () =>
+			reportProgress?.({
+				total: items.length,
+				minted,
+				failed,
+				progress:
+					progress.reduce((sum, p) => sum + p, 0) / items.length,
+				items: [...progress]
+			});
+
+		let next = 0;
+		const worker = async () => {
+			while (next < items.length) {
+				const idx = next++;
+				const onProgress = (p: number) => {
+					progress[idx] = p;
+					report();
+				};
+				const result = await this.mintBatchItem(
+					items[idx],
+					pinata,
+					onProgress,
+					signal
+				);
+				results[idx] = result;
+				if (result.info) {
+					minted++;
+				} else {
+					failed++;
+				}
+				progress[idx] = 1;
+				report();
+			}
+		};
+		const workers = Math.min(Math.floor(concurrency), items.length);
+		await Promise.all(Array.from({ length: workers }, worker));
+		return results;
+	}
+
+	/**
+	 * Resumes an interrupted minting process from its last checkpoint.
+	 *
+	 * @remarks
+	 * Steps that were already completed are skipped, while tasks or the mint
+	 * transaction that were still in progress are waited for instead of being
+	 * started again. The arguments of the process are obtained from the state,
+	 * except for the ones that are not persisted in it.
+	 *
+	 * @param state The last state saved to the `store` passed to
+	 * {@link createNft}, e.g. obtained with its `load` method.
+	 *
+	 * @param opts Arguments that are not persisted in the state: the `file` if
+	 * it was not provided as a path or URL and was not uploaded yet, the
+	 * `pinata` credentials, the `store` to keep saving the state to and a
+	 * `signal` to abort the process.
+	 *
+	 * @returns Information about the minted NFT.
+	 */
+	async resume(
+		state: MintPipelineState,
+		opts: {
+			file?: File | NodeJS.ReadableStream;
+			pinata?: PinataCredentials;
+			store?: CheckpointStore;
+			signal?: AbortSignal;
+		} = {}
+	) {
+		const { store, ...rest } = opts;
+		const pipeline = new MintPipeline(
+			this.api,
+			this.uploader,
+			state,
+			store
 		);
-		return await this.web3.getMintedNftInfo(tx);
+		return await this.runPipeline(pipeline, rest);
+	}
+
+	private async mintBatchItem(
+		item: BatchMintItem,
+		pinata: PinataCredentials | undefined,
+		reportProgress: (progress: number) => void,
+		signal?: AbortSignal
+	): Promise<BatchMintResult> {
+		const { file, store, ...rest } = item;
+		const pipeline = this.newPipeline(rest, file, store);
+		try {
+			const info = await this.runPipeline(pipeline, {
+				file: typeof file === 'string' ? undefined : file,
+				pinata,
+				reportProgress,
+				signal
+			});
+			return { item, info, state: pipeline.state };
+		} catch (error) {
+			return { item, error, state: pipeline.state };
+		}
+	}
+
+	private newPipeline(
+		args: Omit<MintPipelineArgs, 'file'>,
+		file?: File | NodeJS.ReadableStream | string,
+		store?: CheckpointStore
+	) {
+		const state = {
+			...args,
+			file: typeof file === 'string' ? file : undefined
+		};
+		return new MintPipeline(this.api, this.uploader, state, store);
+	}
+
+	private async runPipeline(
+		pipeline: MintPipeline,
+		opts: {
+			file?: File | NodeJS.ReadableStream;
+			pinata?: PinataCredentials;
+			reportProgress?: (progress: number) => void;
+			signal?: AbortSignal;
+		}
+	) {
+		const { pinata, reportProgress = () => {}, signal } = opts;
+		const { args, upload } = pipeline.state;
+		let { file } = opts;
+		if (!file && !args.file && !upload) {
+			file = await this.uploader.pickFile();
+		}
+		// the upload and processing normally take most of the time
+		const step = (start: number, share: number) => (p: number) =>
+			reportProgress(start + p * share);
+		await pipeline.createAsset(file, step(0, 0.5), signal);
+		await pipeline.nftNormalize(step(0.5, 0.25), signal);
+		await pipeline.exportToIPFS(pinata, step(0.75, 0.15), signal);
+		reportProgress(0.9);
+		const info = await pipeline.mintNft(this.web3, signal);
+		if (args.cleanupIntermediates) {
+			await pipeline.cleanupIntermediates();
+		}
+		reportProgress(1);
+		return info;
 	}
 }
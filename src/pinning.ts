@@ -0,0 +1,274 @@
+/**
+ * This module provides the backends for pinning files in IPFS, for publishing
+ * the NFTs from a source you control instead of only through the export task
+ * of the Livepeer API.
+ *
+ * @remarks
+ * When a {@link Pinner} is passed in the `pinner` option of the
+ * {@link minter.Api}, {@link minter.Api.exportToIPFS} still exports the video
+ * file through the Livepeer API, but then pins it and builds and pins the NFT
+ * metadata itself with the pinner. The metadata is the same as previewed by
+ * {@link metadata.previewNftMetadata}, and the result keeps the same
+ * {@link ExportToIPFSOutput} shape. Check {@link pinNftMetadata} for details.
+ *
+ * @remarks
+ * The SDK provides the {@link KuboPinner} for the HTTP RPC API of a Kubo (the
+ * reference IPFS implementation, formerly `go-ipfs`) node, which can also run
+ * locally in tests. Any other provider, like web3.storage, can be used by
+ * implementing the {@link Pinner} interface.
+ *
+ * @example
+ * ```ts
+ * const pinner = new KuboPinner({ url: 'http://127.0.0.1:5001' });
+ * const api = new minter.Api({ auth: { apiKey }, pinner });
+ * const { nftMetadataUrl } = await api.exportToIPFS(asset.id, nftMetadata);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { makeRequest, throwIfAborted } from './http';
+import {
+	defaultNftMetadata,
+	mergeNftMetadata,
+	NftMetadataOverrides
+} from './metadata';
+import { toGatewayUrl } from './playback';
+import { defaultTransport, Transport } from './transport';
+import { Asset, ExportToIPFSOutput } from './types/schema';
+
+/**
+ * The contents of a file to be added to IPFS.
+ */
+export type PinContent = string | Uint8Array | Blob;
+
+/**
+ * The interface for the IPFS pinning backends.
+ */
+export interface Pinner {
+	/**
+	 * Base URL of the HTTP gateway serving the files pinned by this backend,
+	 * used for the gateway URLs of the results. Defaults to the Livepeer IPFS
+	 * gateway if not provided.
+	 */
+	readonly gateway?: string;
+
+	/**
+	 * Adds a file to IPFS and pins it.
+	 *
+	 * @param content The contents of the file.
+	 *
+	 * @param filename An optional name of the file, if supported.
+	 *
+	 * @param signal An optional signal to abort the request.
+	 *
+	 * @returns The CID of the added file.
+	 */
+	add(
+		content: PinContent,
+		filename?: string,
+		signal?: AbortSignal
+	): Promise<string>;
+
+	/**
+	 * Pins a file that is already in the IPFS network, like the video files
+	 * exported by the Livepeer API.
+	 *
+	 * @param cid The CID of the file to pin.
+	 *
+	 * @param signal An optional signal to abort the request.
+	 */
+	pin(cid: string, signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Options for creating a {@link KuboPinner}.
+ */
+export type KuboPinnerOptions = {
+	/**
+	 * The URL of the Kubo RPC API. Defaults to `http://127.0.0.1:5001`, where a
+	 * local node listens by default.
+	 */
+	url?: string;
+	/**
+	 * Additional headers to send in the requests, like the authorization for a
+	 * hosted node.
+	 */
+	headers?: Record<string, string>;
+	/**
+	 * Base URL of the HTTP gateway of the node. See {@link Pinner.gateway}.
+	 */
+	gateway?: string;
+	/**
+	 * The HTTP transport to use for the requests. See {@link transport}.
+	 */
+	transport?: Transport;
+};
+
+const defaultKuboUrl = 'http://127.0.0.1:5001';
+
+/**
+ * Pinner backed by the HTTP RPC API of a Kubo IPFS node.
+ *
+ * @remarks
+ * Files are added as CIDv1, the same version of the CIDs returned by the
+ * Livepeer API. Notice that pinning an existing CID makes the node fetch the
+ * whole file from the network, which can take a while for large videos.
+ */
+export class KuboPinner implements Pinner {
+	readonly gateway?: string;
+	private url: string;
+	private headers: Record<string, string>;
+	private transport: Transport;
+
+	/**
+	 * Creates a new `KuboPinner`.
+	 *
+	 * @param opts Options for the pinner.
+	 */
+	constructor(opts: KuboPinnerOptions = {}) {
+		this.url = (opts.url ?? defaultKuboUrl).replace(/\/+$/, '');
+		this.headers = opts.headers ?? {};
+		this.gateway = opts.gateway;
+		this.transport = opts.transport ?? defaultTransport();
+	}
+
+	async add(content: PinContent, filename = 'file', signal?: AbortSignal) {
+		const { body, contentType } = multipartBody(
+			await toBytes(content),
+			filename
+		);
+		const res = await makeRequest<KuboAddResponse | string>(
+			this.transport,
+			{
+				method: 'post',
+				url: `${this.url}/api/v0/add`,
+				params: { pin: 'true', 'cid-version': 1 },
+				headers: { ...this.headers, 'Content-Type': contentType },
+				data: body,
+				signal
+			}
+		);
+		// multiple files are returned as newline-delimited JSON objects
+		const { Hash } =
+			typeof res === 'string'
+				? (JSON.parse(res.trim().split('\n').pop()!) as KuboAddResponse)
+				: res;
+		if (!Hash) {
+			throw new Error(
+				`Unexpected response from Kubo: ${JSON.stringify(res)}`
+			);
+		}
+		return Hash;
+	}
+
+	async pin(cid: string, signal?: AbortSignal) {
+		await makeRequest(this.transport, {
+			method: 'post',
+			url: `${this.url}/api/v0/pin/add`,
+			params: { arg: cid },
+			headers: this.headers,
+			signal
+		});
+	}
+}
+
+type KuboAddResponse = {
+	Name: string;
+	Hash: string;
+	Size: string;
+};
+
+/**
+ * Publishes the NFT of an asset exported to IPFS with a {@link Pinner}, pinning
+ * the video file and the NFT metadata built locally.
+ *
+ * @remarks
+ * The metadata is the default metadata of the asset merged with the custom
+ * overrides, exactly like {@link metadata.previewNftMetadata} with the URL of
+ * the exported video file. It is stored as a `metadata.json` file.
+ *
+ * @param pinner The pinner to use.
+ *
+ * @param asset The exported asset.
+ *
+ * @param exported The output of the export of the asset to IPFS, from which
+ * the video file is obtained. The NFT metadata exported by the Livepeer API, if
+ * any, is ignored.
+ *
+ * @param nftMetadata The custom overrides for the NFT metadata.
+ *
+ * @param signal An optional signal to abort pinning the files.
+ *
+ * @returns The information about the pinned files, in the same shape as the
+ * output of the export to IPFS.
+ */
+export async function pinNftMetadata(
+	pinner: Pinner,
+	asset: Asset,
+	exported: Pick<
+		ExportToIPFSOutput,
+		'videoFileCid' | 'videoFileUrl' | 'videoFileGatewayUrl'
+	>,
+	nftMetadata?: NftMetadataOverrides,
+	signal?: AbortSignal
+): Promise<ExportToIPFSOutput> {
+	const { videoFileCid } = exported;
+	const videoFileUrl = exported.videoFileUrl || `ipfs://${videoFileCid}`;
+	await pinner.pin(videoFileCid, signal);
+
+	const metadata = mergeNftMetadata(
+		defaultNftMetadata(asset, videoFileUrl),
+		nftMetadata
+	);
+	throwIfAborted(signal);
+	const nftMetadataCid = await pinner.add(
+		JSON.stringify(metadata),
+		'metadata.json',
+		signal
+	);
+	const gateway = { ipfsGateway: pinner.gateway };
+	return {
+		videoFileCid,
+		videoFileUrl,
+		videoFileGatewayUrl: pinner.gateway
+			? toGatewayUrl(videoFileCid, gateway)
+			: exported.videoFileGatewayUrl,
+		nftMetadataCid,
+		nftMetadataUrl: `ipfs://${nftMetadataCid}`,
+		nftMetadataGatewayUrl: toGatewayUrl(nftMetadataCid, gateway)
+	};
+}
+
+async function toBytes(content: PinContent) {
+	if (typeof content === 'string') {
+		return new TextEncoder().encode(content);
+	}
+	if (content instanceof Uint8Array) {
+		return content;
+	}
+	return new Uint8Array(await content.arrayBuffer());
+}
+
+// Builds the multipart body of the add request by hand, since `FormData` is
+// not available in every runtime nor supported by every transport.
+function multipartBody(bytes: Uint8Array, filename: string) {
+	const boundary = `----videonft${Math.random().toString(16).slice(2)}`;
+	const encoder = new TextEncoder();
+	const head = encoder.encode(
+		`--${boundary}\r\n` +
+			`Content-Disposition: form-data; name="file"; filename="${encodeURIComponent(
+				filename
+			)}"\r\n` +
+			`Content-Type: application/octet-stream\r\n\r\n`
+	);
+	const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+	const body = new Uint8Array(head.length + bytes.length + tail.length);
+	body.set(head);
+	body.set(bytes, head.length);
+	body.set(tail, head.length + bytes.length);
+	return {
+		body: body.buffer,
+		contentType: `multipart/form-data; boundary=${boundary}`
+	};
+}
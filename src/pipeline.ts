@@ -0,0 +1,700 @@
+/**
+ * This module provides a crash-resumable version of the NFT minting process,
+ * which persists a checkpoint of its state after every step.
+ *
+ * @remarks
+ * Each step of the process (upload, normalize, export and mint) can take a long
+ * time, especially transcoding big files. The {@link MintPipelineState} keeps
+ * the IDs of the assets and tasks created along the way, the export output and
+ * the mint transaction hash. If the process is interrupted, it can be resumed
+ * from the last checkpoint, skipping the completed steps and reattaching to the
+ * tasks or transaction that were still in progress.
+ *
+ * @remarks
+ * The state is plain JSON, so it can be persisted anywhere through a
+ * {@link CheckpointStore}. The SDK provides a {@link MemoryCheckpointStore}, a
+ * {@link WebStorageCheckpointStore} for the browser and a
+ * {@link FileCheckpointStore} for node.js.
+ *
+ * @remarks
+ * The easiest way to use this is through {@link minter.FullMinter.createNft}
+ * with a `store` and {@link minter.FullMinter.resume}. The
+ * {@link MintPipeline} can also be used directly to run each step separately.
+ *
+ * @packageDocumentation
+ */
+
+import type { ethers } from 'ethers';
+import fs from 'fs';
+
+import {
+	CustomExportParams,
+	PinataCredentials,
+	Task,
+	UploadProgressCallback
+} from './api';
+import { throwIfAborted } from './http';
+import { NftMetadataOverrides, parseNftMetadata } from './metadata';
+import { NormalizeTargetOption } from './targets';
+import type {
+	Api,
+	ExportToUrlOutput,
+	MintedNftInfo,
+	Uploader,
+	Web3
+} from './minter';
+import { ExportToIPFSOutput } from './types/schema';
+import { validateExportToIPFSOutput } from './validation';
+
+/**
+ * The arguments of the minting process that are persisted in the
+ * {@link MintPipelineState}, so it can be resumed only from the state.
+ */
+export type MintPipelineArgs = {
+	/**
+	 * The name of the asset to create.
+	 */
+	name: string;
+	/**
+	 * The path or HTTP(S) URL of the video file, if it was provided as a string.
+	 * Files provided as a `File` or stream must be passed again when resuming
+	 * the process before the upload is done.
+	 */
+	file?: string;
+	/**
+	 * Whether to upload the file even if there is already an asset with the
+	 * same contents. See {@link minter.Api.findDuplicateAsset}.
+	 */
+	forceUpload?: boolean;
+	/**
+	 * Whether to skip the normalization of the asset for NFT marketplaces.
+	 */
+	skipNormalize?: boolean;
+	/**
+	 * The marketplaces or platforms to normalize the asset for. See
+	 * {@link minter.Api.checkNftNormalize}.
+	 */
+	normalizeTarget?: NormalizeTargetOption;
+	/**
+	 * The custom overrides for the NFT metadata. See
+	 * {@link minter.Api.exportToIPFS}.
+	 */
+	nftMetadata?: string | NftMetadataOverrides;
+	/**
+	 * Whether to delete the intermediate assets after minting the NFT.
+	 */
+	cleanupIntermediates?: boolean;
+	/**
+	 * The arguments for the mint transaction. See {@link minter.Web3.mintNft}.
+	 */
+	mint?: {
+		contractAddress?: string;
+		to?: string;
+	};
+};
+
+/**
+ * Checkpoint of a step of the minting process that is backed by a task in the
+ * Livepeer API.
+ */
+export type TaskCheckpoint = {
+	/**
+	 * The ID of the asset created or exported by the step.
+	 */
+	assetId: string;
+	/**
+	 * The ID of the task running the step. It is missing when the step did not
+	 * need any processing, like when the asset is already normalized.
+	 */
+	taskId?: string;
+	/**
+	 * Whether the task has already completed.
+	 */
+	completed?: boolean;
+	/**
+	 * Whether the asset already existed and was reused by the step instead of
+	 * being created, like when the file was uploaded before. Reused assets are
+	 * never deleted by {@link MintPipeline.cleanupIntermediates}.
+	 */
+	reused?: boolean;
+};
+
+/**
+ * The state of the minting process, persisted after every step so it can be
+ * resumed later. This is a plain JSON object.
+ */
+export type MintPipelineState = {
+	/**
+	 * The serializable arguments of the process.
+	 */
+	args: MintPipelineArgs;
+	/**
+	 * Checkpoint of the creation of the source asset, saved once the file is
+	 * uploaded or the import from the URL is started.
+	 */
+	upload?: TaskCheckpoint;
+	/**
+	 * Checkpoint of the normalization of the asset, saved once the transcode
+	 * task is started or the normalization is skipped.
+	 */
+	normalize?: TaskCheckpoint;
+	/**
+	 * Checkpoint of the export of the asset, saved once the export task is
+	 * started. The `ipfs` output is only available for exports to IPFS.
+	 */
+	export?: TaskCheckpoint & { ipfs?: ExportToIPFSOutput };
+	/**
+	 * Checkpoint of the mint transaction, saved once it is sent. The `info` is
+	 * only available after the transaction is confirmed.
+	 */
+	mint?: {
+		txHash: string;
+		info?: MintedNftInfo;
+	};
+	/**
+	 * Whether the intermediate assets have already been deleted.
+	 */
+	cleanedUp?: boolean;
+	/**
+	 * Timestamp (in milliseconds) of the last time the state was updated.
+	 */
+	updatedAt: number;
+};
+
+/**
+ * A storage for the state of a minting process, which allows resuming it even
+ * after the application is restarted.
+ *
+ * @remarks
+ * The SDK provides a {@link MemoryCheckpointStore}, a
+ * {@link WebStorageCheckpointStore} for the browser and a
+ * {@link FileCheckpointStore} for node.js. You can implement this interface to
+ * persist the state anywhere else.
+ */
+export interface CheckpointStore {
+	load(): Promise<MintPipelineState | null> | MintPipelineState | null;
+	save(state: MintPipelineState): Promise<void> | void;
+	clear(): Promise<void> | void;
+}
+
+/**
+ * Checkpoint store that keeps the state only in memory. The process can be
+ * resumed only while the current process is running.
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+	private state: MintPipelineState | null = null;
+
+	load() {
+		return this.state;
+	}
+
+	save(state: MintPipelineState) {
+		this.state = state;
+	}
+
+	clear() {
+		this.state = null;
+	}
+}
+
+/**
+ * Browser-only: Checkpoint store that persists the state in a web `Storage`,
+ * defaulting to `window.localStorage`.
+ */
+export class WebStorageCheckpointStore implements CheckpointStore {
+	/**
+	 * Creates a new `WebStorageCheckpointStore`.
+	 *
+	 * @param key The key to save the state with. Use a different key for each
+	 * minting process running concurrently.
+	 *
+	 * @param storage The web storage to use. Defaults to `localStorage`.
+	 */
+	constructor(
+		private key = 'videonft-pipeline',
+		private storage: Storage = localStorage
+	) {}
+
+	load() {
+		const value = this.storage.getItem(this.key);
+		return value ? (JSON.parse(value) as MintPipelineState) : null;
+	}
+
+	save(state: MintPipelineState) {
+		this.storage.setItem(this.key, JSON.stringify(state));
+	}
+
+	clear() {
+		this.storage.removeItem(this.key);
+	}
+}
+
+/**
+ * Node-only: Checkpoint store that persists the state in a JSON file in the
+ * filesystem.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+	/**
+	 * Creates a new `FileCheckpointStore`.
+	 *
+	 * @param path The path of the JSON file to save the state in. It will be
+	 * created if it doesn't exist.
+	 */
+	constructor(private path: string) {}
+
+	async load() {
+		try {
+			const contents = await fs.promises.readFile(this.path, 'utf8');
+			return JSON.parse(contents) as MintPipelineState;
+		} catch (err: any) {
+			if (err.code === 'ENOENT') {
+				return null;
+			}
+			throw err;
+		}
+	}
+
+	async save(state: MintPipelineState) {
+		// write to a temporary file first so a crash never leaves it truncated
+		const tmpPath = `${this.path}.tmp`;
+		await fs.promises.writeFile(tmpPath, JSON.stringify(state, null, 2));
+		await fs.promises.rename(tmpPath, this.path);
+	}
+
+	async clear() {
+		try {
+			await fs.promises.unlink(this.path);
+		} catch (err: any) {
+			if (err.code !== 'ENOENT') {
+				throw err;
+			}
+		}
+	}
+}
+
+/**
+ * Runs the steps of the minting process, saving a checkpoint of the
+ * {@link MintPipelineState} to the store after each of them.
+ *
+ * @remarks
+ * Every step can be called again after an interruption, even from a different
+ * process with the persisted state. Completed steps are skipped and simply
+ * return their result, while steps with a task still running in the API
+ * reattach to it instead of starting a new one. Steps whose task has failed
+ * are started again.
+ *
+ * @remarks
+ * The steps must be called in order: {@link createAsset}, {@link nftNormalize}
+ * (or {@link skipNormalize}), then {@link exportToIPFS} and {@link mintNft}, or
+ * {@link exportToUrl} instead. Finally, {@link cleanupIntermediates} can
+ * optionally be called to delete the leftover assets.
+ *
+ * @example
+ * ```ts
+ * const store = new FileCheckpointStore('./mint-checkpoint.json');
+ * const state = (await store.load()) ?? { name: 'My NFT', file: './video.mp4' };
+ * const pipeline = new MintPipeline(api, uploader, state, store);
+ * await pipeline.createAsset();
+ * await pipeline.nftNormalize();
+ * await pipeline.exportToIPFS();
+ * const nft = await pipeline.mintNft(web3);
+ * ```
+ */
+export class MintPipeline {
+	private current: MintPipelineState;
+
+	/**
+	 * Creates a new `MintPipeline`.
+	 *
+	 * @param api The {@link minter.Api} to run the steps with.
+	 *
+	 * @param uploader The {@link minter.Uploader} to upload the file with.
+	 *
+	 * @param state The state to resume the process from, or the arguments to
+	 * start a new one.
+	 *
+	 * @param store An optional store to save the state to after every step.
+	 */
+	constructor(
+		private api: Api,
+		private uploader: Uploader,
+		state: MintPipelineState | MintPipelineArgs,
+		private store?: CheckpointStore
+	) {
+		this.current =
+			'args' in state ? state : { args: state, updatedAt: Date.now() };
+	}
+
+	/**
+	 * The current state of the process, as last saved to the store.
+	 */
+	get state(): MintPipelineState {
+		return this.current;
+	}
+
+	/**
+	 * Creates the source asset by uploading the file or importing it from its
+	 * URL. Check {@link minter.Api.createAsset} for more details.
+	 *
+	 * @remarks
+	 * Files that were already uploaded are deduplicated like in
+	 * {@link minter.Api.createAsset} if its `deduplicate` option is enabled, in
+	 * which case the existing asset is used as the source asset of the process,
+	 * unless the `forceUpload` argument is set.
+	 *
+	 * @param file The file to upload, if not provided in the `file` argument of
+	 * the process as a path or URL.
+	 *
+	 * @param reportProgress A function that will be called periodically with the
+	 * progress of the step. The first half is the upload, for which the detailed
+	 * {@link api.UploadProgress} is also passed, and the second half is the
+	 * processing of the file in the API.
+	 *
+	 * @param signal An optional signal to abort the upload and the processing.
+	 *
+	 * @returns The created {@link Asset}.
+	 */
+	async createAsset(
+		file?: File | NodeJS.ReadableStream,
+		reportProgress: UploadProgressCallback = () => {},
+		signal?: AbortSignal
+	) {
+		if (this.current.upload?.completed) {
+			return await this.getAsset('upload', signal);
+		}
+		let upload = this.current.upload;
+		let task = await this.resumeTask(upload, signal);
+		if (!upload || !task) {
+			({ upload, task } = await this.startUpload(
+				file,
+				reportProgress,
+				signal
+			));
+			await this.save({ upload });
+		}
+		if (task) {
+			const onProgress = (p: number) => reportProgress(0.5 + p / 2);
+			await this.api.waitTask(task, onProgress, signal);
+			await this.save({ upload: { ...upload, completed: true } });
+		}
+		return await this.getAsset('upload', signal);
+	}
+
+	/**
+	 * Normalizes the source asset for the best possible NFT, unless the
+	 * `skipNormalize` argument of the process is set. Check
+	 * {@link minter.Api.nftNormalize} for more details.
+	 *
+	 * @param reportProgress A function that will be called periodically with the
+	 * progress of the transcode task.
+	 *
+	 * @param signal An optional signal to abort waiting for the transcode.
+	 *
+	 * @returns The normalized asset, which is the source asset itself if it did
+	 * not require any processing.
+	 */
+	async nftNormalize(
+		reportProgress?: (progress: number) => void,
+		signal?: AbortSignal
+	) {
+		if (this.current.normalize?.completed) {
+			return await this.getAsset('normalize', signal);
+		}
+		let normalize = this.current.normalize;
+		let task = await this.resumeTask(normalize, signal);
+		if (!normalize || !task) {
+			const source = await this.getAsset('upload', signal);
+			const { possible, desiredProfile } = this.api.checkNftNormalize(
+				source,
+				this.current.args.normalizeTarget
+			);
+			if (
+				this.current.args.skipNormalize ||
+				!possible ||
+				!desiredProfile
+			) {
+				await this.save({
+					normalize: { assetId: source.id, completed: true }
+				});
+				return source;
+			}
+			const transcode = await this.api.vod.transcodeAsset(
+				source.id,
+				`${source.name} (${desiredProfile.name})`,
+				desiredProfile,
+				signal
+			);
+			task = transcode.task;
+			normalize = { assetId: transcode.asset.id, taskId: task.id };
+			await this.save({ normalize });
+		}
+		await this.api.waitTask(task, reportProgress, signal);
+		await this.save({ normalize: { ...normalize, completed: true } });
+		return await this.getAsset('normalize', signal);
+	}
+
+	/**
+	 * Skips the normalization step, using the source asset as is for the rest
+	 * of the process.
+	 *
+	 * @param signal An optional signal to abort fetching the source asset.
+	 *
+	 * @returns The source asset.
+	 */
+	async skipNormalize(signal?: AbortSignal) {
+		const source = await this.getAsset('upload', signal);
+		await this.save({ normalize: { assetId: source.id, completed: true } });
+		return source;
+	}
+
+	/**
+	 * Exports the normalized asset to IPFS, with the `nftMetadata` argument of
+	 * the process. Check {@link minter.Api.exportToIPFS} for more details.
+	 *
+	 * @remarks
+	 * With a `pinner` configured in the {@link minter.Api}, the NFT metadata is
+	 * pinned once the export task completes. Pinning is repeated if the process
+	 * is interrupted before saving the result, which is harmless since the
+	 * same contents always get the same CID.
+	 *
+	 * @remarks
+	 * With a `pinner`, the `image` of the NFT defaults to a poster created from
+	 * a frame of the video, as in {@link minter.Api.prepareNftMetadata}.
+	 *
+	 * @param pinata Optional credentials for pinning the files in your own
+	 * Piñata account. These are not persisted in the state, so they must be
+	 * passed again when resuming the process.
+	 *
+	 * @param reportProgress A function that will be called periodically with the
+	 * progress of the export task.
+	 *
+	 * @param signal An optional signal to abort waiting for the export.
+	 *
+	 * @returns The information about the files exported to IPFS.
+	 */
+	async exportToIPFS(
+		pinata?: PinataCredentials,
+		reportProgress?: (progress: number) => void,
+		signal?: AbortSignal
+	) {
+		let exp = this.current.export;
+		if (exp?.completed && exp.ipfs) {
+			return exp.ipfs;
+		}
+		const { pinner } = this.api;
+		const { nftMetadata } = this.current.args;
+		// fail early if the overrides are invalid, even if the export is resumed
+		parseNftMetadata(nftMetadata);
+		let task = await this.resumeTask(exp, signal);
+		if (!exp || !task) {
+			const asset = await this.getAsset('normalize', signal);
+			const overrides = pinner
+				? undefined
+				: await this.api.prepareNftMetadata(asset, nftMetadata, signal);
+			({ task } = await this.api.vod.exportAsset(
+				asset.id,
+				{ ipfs: { nftMetadata: overrides, pinata } },
+				signal
+			));
+			exp = { assetId: asset.id, taskId: task.id };
+			await this.save({ export: exp });
+		}
+		task = await this.api.waitTask(task, reportProgress, signal);
+		let ipfs = validateExportToIPFSOutput(task.output?.export?.ipfs);
+		if (pinner) {
+			const overrides = await this.api.prepareNftMetadata(
+				exp.assetId,
+				nftMetadata,
+				signal
+			);
+			ipfs = await this.api.pinNftMetadata(
+				exp.assetId,
+				ipfs,
+				overrides,
+				signal
+			);
+		}
+		await this.save({ export: { ...exp, ipfs, completed: true } });
+		return ipfs;
+	}
+
+	/**
+	 * Exports the normalized asset to a custom URL, instead of exporting it to
+	 * IPFS and minting the NFT. Check {@link minter.Api.exportToUrl} for more
+	 * details.
+	 *
+	 * @param destination The destination of the export. This is not persisted
+	 * in the state, so it must be passed again when resuming the process.
+	 *
+	 * @param reportProgress A function that will be called periodically with the
+	 * progress of the export task.
+	 *
+	 * @param signal An optional signal to abort waiting for the export.
+	 *
+	 * @returns Information about the export, including the completed task.
+	 */
+	async exportToUrl(
+		destination: CustomExportParams,
+		reportProgress?: (progress: number) => void,
+		signal?: AbortSignal
+	): Promise<ExportToUrlOutput> {
+		const { url, method = 'PUT', headers } = destination;
+		let exp = this.current.export;
+		let task = await this.resumeTask(exp, signal);
+		if (!exp || !task) {
+			const asset = await this.getAsset('normalize', signal);
+			({ task } = await this.api.vod.exportAsset(
+				asset.id,
+				{ custom: { url, method, headers } },
+				signal
+			));
+			exp = { assetId: asset.id, taskId: task.id };
+			await this.save({ export: exp });
+		}
+		task = await this.api.waitTask(task, reportProgress, signal);
+		await this.save({ export: { ...exp, completed: true } });
+		return { url, method, task };
+	}
+
+	/**
+	 * Mints the NFT with the metadata exported to IPFS, or waits for the mint
+	 * transaction if it was already sent. Check {@link minter.Web3.mintNft} for
+	 * more details.
+	 *
+	 * @remarks
+	 * The transaction hash is saved as soon as the transaction is sent, so it is
+	 * never sent twice. If the process is interrupted while the transaction is
+	 * being signed, check your wallet before resuming it.
+	 *
+	 * @param web3 The {@link minter.Web3} to send the transaction with.
+	 *
+	 * @param signal An optional signal to abort the step before the transaction
+	 * is sent. It is ignored after that.
+	 *
+	 * @returns Information about the minted NFT.
+	 */
+	async mintNft(web3: Web3, signal?: AbortSignal) {
+		const { args, export: exp, mint } = this.current;
+		if (mint?.info) {
+			return mint.info;
+		}
+		let tx: ethers.ContractTransaction | string | undefined = mint?.txHash;
+		if (!tx) {
+			const tokenUri = exp?.ipfs?.nftMetadataUrl;
+			if (!exp?.completed || !tokenUri) {
+				throw new Error('The asset must be exported to IPFS first');
+			}
+			throwIfAborted(signal);
+			const { contractAddress, to } = args.mint ?? {};
+			tx = await web3.mintNft(tokenUri, contractAddress, to);
+			await this.save({ mint: { txHash: tx.hash } });
+		}
+		const info = await web3.getMintedNftInfo(tx);
+		await this.save({ mint: { txHash: this.current.mint!.txHash, info } });
+		return info;
+	}
+
+	/**
+	 * Deletes the source and any other intermediate assets, keeping only the
+	 * normalized one. Check {@link minter.Api.cleanupIntermediates} for more
+	 * details.
+	 *
+	 * @param signal An optional signal to abort the cleanup.
+	 *
+	 * @returns The IDs of the deleted assets, which is empty if they had already
+	 * been deleted.
+	 */
+	async cleanupIntermediates(signal?: AbortSignal) {
+		if (this.current.cleanedUp) {
+			return [];
+		}
+		const asset = await this.getAsset('normalize', signal);
+		const deleted = await this.api.cleanupIntermediates(
+			asset,
+			!!this.current.upload?.reused,
+			signal
+		);
+		await this.save({ cleanedUp: true });
+		return deleted;
+	}
+
+	private async save(update: Partial<MintPipelineState>) {
+		this.current = { ...this.current, ...update, updatedAt: Date.now() };
+		await this.store?.save(this.current);
+	}
+
+	// Fetches the task of a step to reattach to it, returning undefined if the
+	// step has not started yet or has to be started again because it failed or
+	// was cancelled, like when aborted with the `cancelTasksOnAbort` option.
+	private async resumeTask(
+		checkpoint?: TaskCheckpoint,
+		signal?: AbortSignal
+	) {
+		if (!checkpoint?.taskId) {
+			return undefined;
+		}
+		const task = await this.api.vod.getTask(checkpoint.taskId, signal);
+		const phase = task.status?.phase;
+		return phase === 'failed' || phase === 'cancelled' ? undefined : task;
+	}
+
+	private async getAsset(step: 'upload' | 'normalize', signal?: AbortSignal) {
+		const checkpoint = this.current[step];
+		if (!checkpoint?.completed) {
+			throw new Error(`The ${step} step has not been completed yet`);
+		}
+		return await this.api.vod.getAsset(checkpoint.assetId, signal);
+	}
+
+	private async startUpload(
+		file: File | NodeJS.ReadableStream | undefined,
+		reportProgress: UploadProgressCallback,
+		signal?: AbortSignal
+	): Promise<{ upload: TaskCheckpoint; task?: Task }> {
+		const { name, file: path, forceUpload } = this.current.args;
+		if (!file && path && isUrl(path)) {
+			const { asset, task } = await this.api.vod.importAsset(
+				path,
+				name,
+				signal
+			);
+			return { upload: { assetId: asset.id, taskId: task.id }, task };
+		}
+		if (!file && !path) {
+			throw new Error('The file to upload must be provided');
+		}
+		const existing = forceUpload
+			? undefined
+			: await this.api.findDuplicateAsset(file ?? path!, signal);
+		if (existing) {
+			reportProgress(1);
+			const upload = {
+				assetId: existing.id,
+				completed: true,
+				reused: true
+			};
+			return { upload };
+		}
+
+		const { url, asset, task } = await this.api.requestUploadUrl(
+			name,
+			signal
+		);
+		const uploadFile = (content: File | NodeJS.ReadableStream) =>
+			this.uploader.uploadFile(
+				url,
+				content,
+				(p, details) => reportProgress(p / 2, details),
+				undefined,
+				signal
+			);
+		if (file) {
+			await uploadFile(file);
+		} else {
+			await this.uploader.useFile(path!, uploadFile);
+		}
+		return { upload: { assetId: asset.id, taskId: task.id }, task };
+	}
+}
+
+const isUrl = (str: string) => /^https?:\/\//i.test(str);
@@ -0,0 +1,219 @@
+/**
+ * This module provides helpers for playing back the video assets, either from
+ * the Livepeer CDN or from the IPFS files after they are exported.
+ *
+ * @remarks
+ * The helpers here only build URLs, so they work from any environment without
+ * making any requests. The most common way to use them is through the
+ * {@link minter.Api.getPlaybackInfo} and {@link minter.Api.getIpfsPlaybackInfo}
+ * methods.
+ *
+ * @example
+ * ```ts
+ * const { sources, posterUrl } = getAssetPlaybackInfo(asset);
+ * video.poster = posterUrl ?? '';
+ * video.src = sources.find(s => s.type === 'mp4')?.url ?? '';
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { Asset, ExportToIPFSOutput } from './types/schema';
+
+/**
+ * A source for playing back a video, in the format expected by most players
+ * and the `<source>` HTML element.
+ */
+export type PlaybackSource = {
+	/**
+	 * The kind of the source. HLS requires a player with HLS support (natively
+	 * available in Safari), while MP4 can be played by any `<video>` element.
+	 */
+	type: 'hls' | 'mp4';
+	/**
+	 * The MIME type of the source, to be used in the `type` attribute of a
+	 * `<source>` element.
+	 */
+	mimeType: 'application/x-mpegURL' | 'video/mp4';
+	/**
+	 * The URL of the video.
+	 */
+	url: string;
+};
+
+/**
+ * Everything needed for playing back a video or previewing it in a page.
+ */
+export type PlaybackInfo = {
+	/**
+	 * The sources for playing the video, in order of preference.
+	 */
+	sources: PlaybackSource[];
+	/**
+	 * URL of a still image of the video to show before it starts playing. Not
+	 * available for files in IPFS, in which case the player can show the first
+	 * frame of the video instead (e.g. with the `preload="metadata"` attribute).
+	 */
+	posterUrl?: string;
+	/**
+	 * URL of a hosted player page that can be embedded in an `<iframe>`.
+	 */
+	embedUrl: string;
+};
+
+/**
+ * Options for building the playback URLs.
+ */
+export type PlaybackOptions = {
+	/**
+	 * Base URL of the CDN serving the assets. Defaults to the origin of the
+	 * playback URLs of the asset, or `https://livepeercdn.com` if they are not
+	 * populated.
+	 */
+	cdnUrl?: string;
+	/**
+	 * Base URL of the embeddable player. Defaults to `https://lvpr.tv`.
+	 */
+	playerUrl?: string;
+	/**
+	 * Base URL of the IPFS gateway used for `ipfs://` URLs and plain CIDs.
+	 * Defaults to `https://ipfs.livepeer.com/ipfs/`.
+	 */
+	ipfsGateway?: string;
+};
+
+const defaultCdnUrl = 'https://livepeercdn.com';
+const defaultPlayerUrl = 'https://lvpr.tv';
+const defaultIpfsGateway = 'https://ipfs.livepeer.com/ipfs/';
+
+/**
+ * Builds the playback information for an asset stored in the Livepeer API.
+ *
+ * @param asset The asset to play back. It must have been fully created already,
+ * meaning that the {@link api.Task} that created it must have completed.
+ *
+ * @param opts Options for building the URLs.
+ *
+ * @returns The playback information with HLS and MP4 sources, a poster image
+ * and an embeddable player URL.
+ */
+export function getAssetPlaybackInfo(
+	asset: Asset,
+	opts: PlaybackOptions = {}
+): PlaybackInfo {
+	const { playbackId } = asset;
+	if (!playbackId) {
+		throw new Error(`Asset ${asset.id} is not ready for playback yet`);
+	}
+	const assetBase = assetBaseUrl(asset, playbackId, opts);
+	return {
+		sources: [
+			hlsSource(asset.playbackUrl || `${assetBase}/index.m3u8`),
+			mp4Source(asset.downloadUrl || `${assetBase}/video`)
+		],
+		posterUrl: getPosterUrl(asset, undefined, opts),
+		embedUrl: `${playerUrl(opts)}?v=${encodeURIComponent(playbackId)}`
+	};
+}
+
+/**
+ * Builds the URL of a poster image of an asset, which is a frame of the video
+ * served by the Livepeer CDN as a JPEG.
+ *
+ * @param asset The asset to get the poster of. It must be ready for playback.
+ *
+ * @param time The time in seconds of the frame to use. Defaults to the frame
+ * picked by the CDN.
+ *
+ * @param opts Options for building the URL.
+ *
+ * @returns The URL of the poster image.
+ */
+export function getPosterUrl(
+	asset: Asset,
+	time?: number,
+	opts: PlaybackOptions = {}
+) {
+	const { playbackId } = asset;
+	if (!playbackId) {
+		throw new Error(`Asset ${asset.id} is not ready for playback yet`);
+	}
+	const url = `${assetBaseUrl(asset, playbackId, opts)}/thumbnail.jpg`;
+	return time === undefined ? url : `${url}?time=${time}`;
+}
+
+/**
+ * Builds the playback information for a video file exported to IPFS.
+ *
+ * @param ipfs The output of the export to IPFS (check
+ * {@link minter.Api.exportToIPFS}), or directly the URL of the video file. The
+ * URL can be an HTTP gateway URL, an `ipfs://` URL or a plain CID.
+ *
+ * @param opts Options for building the URLs.
+ *
+ * @returns The playback information with an MP4 source served by the IPFS
+ * gateway and an embeddable player URL.
+ */
+export function getIpfsPlaybackInfo(
+	ipfs: ExportToIPFSOutput | string,
+	opts: PlaybackOptions = {}
+): PlaybackInfo {
+	const url =
+		typeof ipfs === 'string'
+			? toGatewayUrl(ipfs, opts)
+			: ipfs.videoFileGatewayUrl ||
+			  toGatewayUrl(ipfs.videoFileUrl || ipfs.videoFileCid, opts);
+	return {
+		sources: [mp4Source(url)],
+		embedUrl: `${playerUrl(opts)}?url=${encodeURIComponent(url)}`
+	};
+}
+
+/**
+ * Converts an IPFS URL or CID to a URL in an HTTP gateway. HTTP(S) URLs are
+ * returned as they are.
+ *
+ * @param urlOrCid An `ipfs://` URL, a CID optionally followed by a path, or an
+ * HTTP URL.
+ *
+ * @param opts Options with the gateway to use.
+ *
+ * @returns The HTTP URL of the file.
+ */
+export function toGatewayUrl(
+	urlOrCid: string,
+	opts: Pick<PlaybackOptions, 'ipfsGateway'> = {}
+) {
+	if (/^https?:\/\//i.test(urlOrCid)) {
+		return urlOrCid;
+	}
+	const gateway = opts.ipfsGateway ?? defaultIpfsGateway;
+	const path = urlOrCid.replace(/^ipfs:\/\/(ipfs\/)?/i, '');
+	return gateway.replace(/\/*$/, '/') + path;
+}
+
+function assetBaseUrl(asset: Asset, playbackId: string, opts: PlaybackOptions) {
+	const cdnUrl = trimSlashes(
+		opts.cdnUrl ?? originOf(asset.downloadUrl) ?? defaultCdnUrl
+	);
+	return `${cdnUrl}/asset/${playbackId}`;
+}
+
+const hlsSource = (url: string): PlaybackSource => ({
+	type: 'hls',
+	mimeType: 'application/x-mpegURL',
+	url
+});
+
+const mp4Source = (url: string): PlaybackSource => ({
+	type: 'mp4',
+	mimeType: 'video/mp4',
+	url
+});
+
+const playerUrl = (opts: PlaybackOptions) =>
+	trimSlashes(opts.playerUrl ?? defaultPlayerUrl) + '/';
+
+const originOf = (url?: string) => url?.match(/^https?:\/\/[^/]+/i)?.[0];
+
+const trimSlashes = (url: string) => url.replace(/\/+$/, '');
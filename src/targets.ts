@@ -0,0 +1,536 @@
+/**
+ * This module provides the normalization targets, which describe the
+ * constraints that NFT marketplaces impose on the video files, like their size,
+ * format, codec, duration or resolution.
+ *
+ * @remarks
+ * The SDK comes with built-in targets for the main marketplaces (OpenSea,
+ * Rarible, Foundation and Zora), which can be referenced by ID. Custom targets
+ * can be passed directly as a {@link NormalizeTarget} object, or registered
+ * with {@link registerNormalizeTarget} to be referenced by ID as well, like
+ * from the CLI.
+ *
+ * @remarks
+ * When normalizing for many targets at once, the asset is transcoded to a
+ * profile that satisfies all of them. Check {@link minter.Api.nftNormalize}
+ * and {@link minter.Api.checkNftNormalize}.
+ *
+ * @example
+ * ```ts
+ * const { violations } = api.checkNftNormalize(asset, ['opensea', 'foundation']);
+ * for (const v of violations) {
+ * 	console.log(v.message);
+ * }
+ * asset = await api.nftNormalize(asset, { target: ['opensea', 'foundation'] });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { getDesiredBitrate, makeProfile } from './transcode';
+import { Asset, FfmpegProfile } from './types/schema';
+
+/**
+ * The constraints of a platform on the video files of the NFTs. Any missing
+ * constraint means the platform accepts any value for it.
+ */
+export type NormalizeTarget = {
+	/**
+	 * Human readable name of the target, used in the violation messages.
+	 */
+	name: string;
+	/**
+	 * Maximum size of the file in bytes.
+	 */
+	maxSize?: number;
+	/**
+	 * Maximum duration of the video in seconds. This cannot be fixed by
+	 * transcoding, so longer videos can't be normalized for the target.
+	 */
+	maxDuration?: number;
+	/**
+	 * Maximum resolution of the video. It applies to both orientations, so a
+	 * 1920x1080 limit also accepts portrait 1080x1920 videos.
+	 */
+	maxResolution?: { width: number; height: number };
+	/**
+	 * Accepted container formats, like `mp4` or `webm`.
+	 */
+	formats?: string[];
+	/**
+	 * Accepted video codecs, like `h264` or `vp9`.
+	 */
+	videoCodecs?: string[];
+	/**
+	 * Accepted pixel formats of the video, like `yuv420p`. Browsers can't
+	 * decode most 10-bit (e.g. `yuv420p10le`) or 4:2:2/4:4:4 formats.
+	 */
+	pixelFormats?: string[];
+	/**
+	 * Maximum frame rate of the video.
+	 */
+	maxFps?: number;
+	/**
+	 * Minimum bitrate of the video in bits per second that is considered
+	 * acceptable when shrinking the file to `maxSize`. Defaults to 100kbps.
+	 */
+	minBitrate?: number;
+};
+
+/**
+ * IDs of the built-in targets for the main NFT marketplaces.
+ */
+export type MarketplaceTargetId = 'opensea' | 'rarible' | 'foundation' | 'zora';
+
+/**
+ * The targets to normalize an asset for, as accepted by the SDK functions. It
+ * can be the ID of a registered target, a custom target or a list of those.
+ */
+export type NormalizeTargetOption =
+	| MarketplaceTargetId
+	| string
+	| NormalizeTarget
+	| (MarketplaceTargetId | string | NormalizeTarget)[];
+
+/**
+ * The constraints of the {@link NormalizeTarget}s that can be violated.
+ */
+export type NormalizeConstraint =
+	| 'size'
+	| 'duration'
+	| 'resolution'
+	| 'format'
+	| 'videoCodec'
+	| 'pixelFormat'
+	| 'fps';
+
+/**
+ * A constraint of a target that an asset does not satisfy.
+ */
+export type NormalizeViolation = {
+	/**
+	 * The name of the violated target.
+	 */
+	target: string;
+	constraint: NormalizeConstraint;
+	/**
+	 * The value of the asset for the constraint.
+	 */
+	actual: number | string;
+	/**
+	 * The limit or the accepted values of the target.
+	 */
+	limit: number | string;
+	/**
+	 * Whether transcoding the asset can fix the violation.
+	 */
+	fixable: boolean;
+	message: string;
+};
+
+/**
+ * Error thrown when an asset cannot be normalized for the requested targets.
+ */
+export class NormalizeError extends Error {
+	constructor(readonly violations: NormalizeViolation[]) {
+		super(
+			`Asset cannot be normalized: ${violations
+				.map(v => v.message)
+				.join('; ')}`
+		);
+		this.name = 'NormalizeError';
+	}
+}
+
+/**
+ * The ID of the target used when none is specified.
+ */
+export const defaultNormalizeTarget: MarketplaceTargetId = 'opensea';
+
+/**
+ * The constraints for a video to play in every major browser, and so in the
+ * previews of the marketplaces. Spread them in custom targets to get the same
+ * compatibility as the built-in ones.
+ *
+ * @example
+ * ```ts
+ * const target = { ...browserPlayable, name: 'My App', maxSize: 20_000_000 };
+ * ```
+ */
+export const browserPlayable: Omit<NormalizeTarget, 'name'> = {
+	formats: ['mp4', 'webm'],
+	videoCodecs: ['h264', 'vp8', 'vp9'],
+	pixelFormats: ['yuv420p', 'yuvj420p'],
+	maxFps: 60
+};
+
+// The format, codec and pixel format of the files created by the transcode
+// tasks with the profiles from `makeProfile`.
+const transcodedFormat = 'mp4';
+const transcodedCodec = 'h264';
+const transcodedPixelFormat = 'yuv420p';
+// Bitrate used when the asset does not report one and must be transcoded.
+const fallbackBitrate = 4_000_000; // 4 Mbps
+// Bits per pixel of each frame above which H.264 gets no visible improvement,
+// used to cap the bitrate when converting from less efficient codecs.
+const maxBitsPerPixel = 0.2;
+
+// Limits documented by each marketplace at the time of writing.
+const registry = new Map<string, NormalizeTarget>([
+	['opensea', { ...browserPlayable, name: 'OpenSea', maxSize: 100_000_000 }],
+	[
+		'rarible',
+		{
+			...browserPlayable,
+			name: 'Rarible',
+			maxSize: 100_000_000,
+			formats: ['mp4'],
+			videoCodecs: ['h264']
+		}
+	],
+	[
+		'foundation',
+		{
+			...browserPlayable,
+			name: 'Foundation',
+			maxSize: 50_000_000,
+			formats: ['mp4'],
+			videoCodecs: ['h264']
+		}
+	],
+	['zora', { ...browserPlayable, name: 'Zora', maxSize: 50_000_000 }]
+]);
+
+/**
+ * Registers a custom target, so it can be referenced by ID. Registering an
+ * existing ID replaces the previous target, including the built-in ones.
+ *
+ * @param id The ID to reference the target with.
+ *
+ * @param target The constraints of the target.
+ */
+export function registerNormalizeTarget(id: string, target: NormalizeTarget) {
+	registry.set(id.toLowerCase(), target);
+}
+
+/**
+ * Gets a registered target by its ID.
+ *
+ * @param id The ID of the target, case insensitive.
+ *
+ * @returns The target. Throws an error if there is no target with this ID.
+ */
+export function getNormalizeTarget(id: string): NormalizeTarget {
+	const target = registry.get(id.toLowerCase());
+	if (!target) {
+		throw new Error(
+			`Unknown normalization target "${id}". Available targets: ${[
+				...registry.keys()
+			].join(', ')}`
+		);
+	}
+	return target;
+}
+
+/**
+ * Lists the IDs of all the registered targets.
+ */
+export function getNormalizeTargetIds() {
+	return [...registry.keys()];
+}
+
+/**
+ * Resolves the targets referenced by a {@link NormalizeTargetOption}.
+ *
+ * @param option The targets to resolve. Defaults to the
+ * {@link defaultNormalizeTarget}.
+ *
+ * @returns The list of resolved targets. Throws an error if any ID is unknown.
+ */
+export function resolveNormalizeTargets(
+	option: NormalizeTargetOption = defaultNormalizeTarget
+): NormalizeTarget[] {
+	const options = Array.isArray(option) ? option : [option];
+	return options.map(t =>
+		typeof t === 'string' ? getNormalizeTarget(t) : t
+	);
+}
+
+/**
+ * Combines many targets into a single one that satisfies all of them, by
+ * keeping the strictest value of each constraint.
+ *
+ * @param targets The targets to combine.
+ *
+ * @returns The combined target, named after all of them.
+ */
+export function combineNormalizeTargets(
+	targets: NormalizeTarget[]
+): NormalizeTarget {
+	const min = (values: (number | undefined)[]) => {
+		const defined = values.filter((v): v is number => v !== undefined);
+		return defined.length ? Math.min(...defined) : undefined;
+	};
+	const intersect = (lists: (string[] | undefined)[]) =>
+		lists.reduce<string[] | undefined>(
+			(acc, list) =>
+				!list ? acc : !acc ? list : acc.filter(v => list.includes(v)),
+			undefined
+		);
+	const resolutions = targets
+		.map(t => t.maxResolution)
+		.filter((r): r is NonNullable<typeof r> => !!r)
+		.map(r => landscape(r.width, r.height));
+	return {
+		name: targets.map(t => t.name).join(', '),
+		maxSize: min(targets.map(t => t.maxSize)),
+		maxDuration: min(targets.map(t => t.maxDuration)),
+		maxResolution: resolutions.length
+			? {
+					width: Math.min(...resolutions.map(r => r.width)),
+					height: Math.min(...resolutions.map(r => r.height))
+			  }
+			: undefined,
+		formats: intersect(targets.map(t => t.formats)),
+		videoCodecs: intersect(targets.map(t => t.videoCodecs)),
+		pixelFormats: intersect(targets.map(t => t.pixelFormats)),
+		maxFps: min(targets.map(t => t.maxFps)),
+		// a higher minimum bitrate is the stricter one
+		minBitrate: targets.reduce<number | undefined>(
+			(acc, t) =>
+				t.minBitrate === undefined
+					? acc
+					: Math.max(acc ?? 0, t.minBitrate),
+			undefined
+		)
+	};
+}
+
+/**
+ * Checks which constraints of a target an asset violates.
+ *
+ * @param asset The asset to check. It must have been fully populated with the
+ * video metadata.
+ *
+ * @param target The target to check the asset against.
+ *
+ * @returns The violated constraints, or an empty list if the asset already
+ * satisfies the target.
+ */
+export function checkNormalizeTarget(
+	asset: Asset,
+	target: NormalizeTarget
+): NormalizeViolation[] {
+	const {
+		name,
+		maxSize,
+		maxDuration,
+		maxResolution,
+		formats,
+		videoCodecs,
+		pixelFormats,
+		maxFps
+	} = target;
+	const video = getVideoTrack(asset);
+	const violations: NormalizeViolation[] = [];
+	const violate = (v: Omit<NormalizeViolation, 'target'>) =>
+		violations.push({ target: name, ...v });
+
+	const size = asset.size ?? 0;
+	if (maxSize !== undefined && size > maxSize) {
+		let fixable = true;
+		try {
+			getDesiredBitrate(asset, maxSize, target.minBitrate);
+		} catch {
+			fixable = false;
+		}
+		violate({
+			constraint: 'size',
+			actual: size,
+			limit: maxSize,
+			fixable,
+			message: `${name} accepts files up to ${formatMB(
+				maxSize
+			)}, but the asset has ${formatMB(size)}${
+				fixable ? '' : ' and is too large to be shrunk'
+			}`
+		});
+	}
+	const duration = asset.videoSpec?.duration ?? 0;
+	if (maxDuration !== undefined && duration > maxDuration) {
+		violate({
+			constraint: 'duration',
+			actual: duration,
+			limit: maxDuration,
+			fixable: false,
+			message: `${name} accepts videos up to ${maxDuration}s long, but the asset has ${Math.round(
+				duration
+			)}s`
+		});
+	}
+	const { width = 0, height = 0 } = video ?? {};
+	if (maxResolution && !fitsResolution(width, height, maxResolution)) {
+		violate({
+			constraint: 'resolution',
+			actual: `${width}x${height}`,
+			limit: `${maxResolution.width}x${maxResolution.height}`,
+			fixable: true,
+			message: `${name} accepts videos up to ${maxResolution.width}x${maxResolution.height}, but the asset is ${width}x${height}`
+		});
+	}
+	const format = asset.videoSpec?.format;
+	if (formats && format && !matchesFormat(format, formats)) {
+		violate({
+			constraint: 'format',
+			actual: format,
+			limit: formats.join(', '),
+			fixable: formats.includes(transcodedFormat),
+			message: `${name} accepts ${formats.join(
+				', '
+			)} files, but the asset is ${format}`
+		});
+	}
+	const codec = video?.codec?.toLowerCase();
+	if (videoCodecs && codec && !videoCodecs.includes(codec)) {
+		violate({
+			constraint: 'videoCodec',
+			actual: codec,
+			limit: videoCodecs.join(', '),
+			fixable: videoCodecs.includes(transcodedCodec),
+			message: `${name} accepts ${videoCodecs.join(
+				', '
+			)} videos, but the asset is ${codec}`
+		});
+	}
+	const pixelFormat = video?.pixelFormat?.toLowerCase();
+	if (pixelFormats && pixelFormat && !pixelFormats.includes(pixelFormat)) {
+		violate({
+			constraint: 'pixelFormat',
+			actual: pixelFormat,
+			limit: pixelFormats.join(', '),
+			fixable: pixelFormats.includes(transcodedPixelFormat),
+			message: `${name} accepts ${pixelFormats.join(
+				', '
+			)} pixel formats, but the asset is ${pixelFormat}`
+		});
+	}
+	const fps = video?.fps ?? 0;
+	if (maxFps !== undefined && fps > maxFps) {
+		violate({
+			constraint: 'fps',
+			actual: fps,
+			limit: maxFps,
+			fixable: true,
+			message: `${name} accepts videos up to ${maxFps} fps, but the asset has ${
+				Math.round(fps * 100) / 100
+			} fps`
+		});
+	}
+	return violations;
+}
+
+/**
+ * Computes the profile to transcode an asset to so it satisfies all the
+ * specified targets.
+ *
+ * @remarks
+ * The bitrate is reduced to fit within the strictest `maxSize`, as calculated
+ * by {@link transcode.getDesiredBitrate}, and the resolution to fit within the
+ * strictest `maxResolution`. Check {@link transcode.makeProfile} for how the
+ * final resolution is picked.
+ *
+ * @remarks
+ * The video is always transcoded to H.264 High in a MP4 file, which browsers
+ * play everywhere, also converting it to 8-bit `yuv420p` and reducing its frame
+ * rate to the strictest `maxFps`. The bitrate is also capped to what H.264
+ * needs at the output resolution and frame rate, so converting from codecs
+ * with much higher bitrates, like ProRes, doesn't create huge files.
+ *
+ * @param asset The asset to normalize. It must have been fully populated with
+ * the video metadata.
+ *
+ * @param targets The targets to satisfy.
+ *
+ * @returns The profile to transcode the asset to, or `null` if it already
+ * satisfies all the targets. Throws a {@link NormalizeError} if any violation
+ * cannot be fixed by transcoding.
+ */
+export function makeNormalizeProfile(
+	asset: Asset,
+	targets: NormalizeTarget[]
+): FfmpegProfile | null {
+	const combined = combineNormalizeTargets(targets);
+	const violations = checkNormalizeTarget(asset, combined);
+	if (!violations.length) {
+		return null;
+	}
+	if (violations.some(v => !v.fixable)) {
+		throw new NormalizeError(
+			targets.flatMap(t => checkNormalizeTarget(asset, t))
+		);
+	}
+
+	const { maxSize = Infinity, maxResolution, minBitrate, maxFps } = combined;
+	const {
+		bitrate: sourceBitrate = 0,
+		width = 0,
+		height = 0,
+		fps: sourceFps = 0
+	} = getVideoTrack(asset) ?? {};
+	const bitrate =
+		getDesiredBitrate(asset, maxSize, minBitrate) ??
+		(sourceBitrate || fallbackBitrate);
+	const profile = makeProfile(asset, bitrate, { maxResolution });
+	// a lower resolution needs proportionally less bits for the same quality
+	const pixels = profile.width * profile.height;
+	if (sourceBitrate && pixels && pixels < width * height) {
+		const scaledBitrate = (sourceBitrate * pixels) / (width * height);
+		profile.bitrate = Math.min(profile.bitrate, scaledBitrate);
+	}
+	if (maxFps !== undefined && sourceFps > maxFps) {
+		// drop whole frames to keep a smooth motion, e.g. 119.88 to 59.94 fps
+		const divisor = Math.ceil(sourceFps / maxFps);
+		profile.fps = Math.round((sourceFps * 1000) / divisor);
+		profile.fpsDen = 1000;
+	}
+	const fps = profile.fps / (profile.fpsDen ?? 1) || sourceFps || 30;
+	profile.bitrate = Math.min(
+		profile.bitrate,
+		maxBitsPerPixel * pixels * fps || Infinity
+	);
+	profile.bitrate = Math.round(profile.bitrate);
+	return profile;
+}
+
+function getVideoTrack(asset: Asset) {
+	return asset.videoSpec?.tracks?.find(t => t.type === 'video');
+}
+
+function landscape(width: number, height: number) {
+	return width >= height
+		? { width, height }
+		: { width: height, height: width };
+}
+
+function fitsResolution(
+	width: number,
+	height: number,
+	max: { width: number; height: number }
+) {
+	const res = landscape(width, height);
+	const box = landscape(max.width, max.height);
+	return res.width <= box.width && res.height <= box.height;
+}
+
+// The formats are reported as a comma separated list of the names of the
+// demuxer, like `mov,mp4,m4a,3gp,3g2,mj2`.
+function matchesFormat(format: string, formats: string[]) {
+	return format
+		.toLowerCase()
+		.split(',')
+		.some(f => formats.includes(f.trim()));
+}
+
+function formatMB(bytes: number) {
+	return `${Math.round(bytes / 1_000_000)} MB`;
+}
@@ -46,39 +46,154 @@ export function getDesiredBitrate(
 	return desiredBitrate;
 }
 
+/**
+ * A rung of the resolution ladder used by {@link makeProfile}.
+ */
+export type ResolutionRung = {
+	/**
+	 * Name of the profile. Defaults to the `lines` followed by `p`, like `720p`.
+	 */
+	name?: string;
+	/**
+	 * Size of the short side of the video, which is the height of landscape
+	 * videos and the width of portrait ones.
+	 */
+	lines: number;
+	/**
+	 * Minimum bitrate in bits per second for the rung to be picked.
+	 */
+	minBitrate: number;
+};
+
+/**
+ * The default resolution ladder, which picks 720p for bitrates of 0.5 Mbps and
+ * above or 480p for lower bitrates.
+ */
+export const defaultResolutionLadder: ResolutionRung[] = [
+	{ lines: 720, minBitrate: min720pBitrate },
+	{ lines: 480, minBitrate: 0 }
+];
+
+/**
+ * Options for {@link makeProfile}.
+ */
+export type MakeProfileOptions = {
+	/**
+	 * The resolutions to choose from when the bitrate is reduced considerably.
+	 * Defaults to the {@link defaultResolutionLadder}.
+	 */
+	ladder?: ResolutionRung[];
+	/**
+	 * An optional maximum resolution for the transcoded asset, in either
+	 * orientation. The picked resolution is scaled down to fit within it if
+	 * necessary, keeping its aspect ratio.
+	 */
+	maxResolution?: { width: number; height: number };
+};
+
 /**
  * Creates the full ffmpeg profile specification for a given asset to be
  * transcoded to the specified bitrate. Also picks an acceptable resolution
  * based on the desired bitrate.
  *
+ * @remarks
+ * The resolution is only changed if the bitrate is reduced too much to keep
+ * the same quality at the source resolution. In that case, the highest rung of
+ * the `ladder` whose `minBitrate` is met is picked. The rungs apply to the
+ * short side of the video, so portrait and square videos are scaled just like
+ * landscape ones, and the source aspect ratio is always kept. Videos are never
+ * upscaled and the dimensions are rounded to even numbers, as required by most
+ * encoders.
+ *
+ * @remarks
+ * The profile always uses the H.264 encoder with the High profile. H.264 is
+ * the only codec that every browser and marketplace plays, and High is
+ * supported by virtually every hardware decoder while compressing better than
+ * Main or Baseline. It also only allows 8-bit 4:2:0 video, so the output is
+ * always `yuv420p` even for 10-bit or 4:2:2 sources.
+ *
  * @param asset The asset that will be transcoded.
  *
  * @param desiredBitrate The desired bitrate for the transcoded asset. Can be
  * obtained from {@link getDesiredBitrate} to shrink an asset to a certain size.
  *
+ * @param opts Options for picking the resolution.
+ *
  * @returns The ffmpeg profile for the asset to be transcoded to.
  */
 export function makeProfile(
 	asset: Asset,
-	desiredBitrate: number
+	desiredBitrate: number,
+	opts: MakeProfileOptions = {}
 ): FfmpegProfile {
+	const { ladder = defaultResolutionLadder, maxResolution } = opts;
 	const { bitrate = 1, width = 0, height = 0 } = getVideoTrack(asset) ?? {};
+	const rungs = [...ladder].sort((a, b) => b.lines - a.lines);
+	if (!rungs.length) {
+		throw new Error('The resolution ladder must have at least one rung');
+	}
 
-	// We only change the resolution if the bitrate changes too much. We don't go
-	// below 720p though since the bitrate is the thing that really matters. We
-	// don't need to handle aspect ratio since go-livepeer will do it for us.
-	const referenceHeight = height * Math.sqrt(desiredBitrate / bitrate);
-	const resolution =
-		height < 480 || referenceHeight > 720
-			? { name: 'low-bitrate', width, height }
-			: desiredBitrate < min720pBitrate
-			? { name: '480p', width: 854, height: 480 }
-			: { name: '720p', width: 1280, height: 720 };
+	// We only change the resolution if the bitrate changes too much, to the
+	// short side that keeps the same bits per pixel. We don't go below the top
+	// rung though since the bitrate is the thing that really matters.
+	const shortSide = Math.min(width, height);
+	const referenceLines = shortSide * Math.sqrt(desiredBitrate / bitrate);
+	const rung =
+		rungs.find(r => desiredBitrate >= r.minBitrate) ??
+		rungs[rungs.length - 1];
+	let resolution =
+		shortSide < rungs[rungs.length - 1].lines ||
+		referenceLines > rungs[0].lines ||
+		rung.lines >= shortSide
+			? { name: 'low-bitrate', width: even(width), height: even(height) }
+			: {
+					name: rung.name ?? `${rung.lines}p`,
+					...scaleResolution(width, height, rung.lines / shortSide)
+			  };
+	if (maxResolution && resolution.width && resolution.height) {
+		resolution = fitResolution(resolution, maxResolution);
+	}
 	return {
 		...resolution,
 		bitrate: desiredBitrate,
-		fps: 0
+		fps: 0,
+		encoder: 'h264',
+		profile: 'H264High'
+	};
+}
+
+function fitResolution(
+	resolution: { name: string; width: number; height: number },
+	max: { width: number; height: number }
+) {
+	const { width, height } = resolution;
+	const portrait = height > width;
+	const [maxWidth, maxHeight] =
+		portrait === max.height > max.width
+			? [max.width, max.height]
+			: [max.height, max.width];
+	const scale = Math.min(maxWidth / width, maxHeight / height);
+	if (scale >= 1) {
+		return resolution;
+	}
+	// round down so the result still fits within the maximum
+	const fitted = {
+		width: even(width * scale, Math.floor),
+		height: even(height * scale, Math.floor)
 	};
+	return {
+		name: `${Math.min(fitted.width, fitted.height)}p`,
+		...fitted
+	};
+}
+
+function scaleResolution(width: number, height: number, scale: number) {
+	return { width: even(width * scale), height: even(height * scale) };
+}
+
+// Most encoders require even dimensions. Unknown (zero) sizes are kept.
+function even(n: number, round = Math.round) {
+	return n && Math.max(2, round(n / 2) * 2);
 }
 
 function getVideoTrack(asset: Asset) {
@@ -0,0 +1,435 @@
+/**
+ * This module provides the HTTP transports used by the SDK for calling the
+ * Livepeer API and uploading files.
+ *
+ * @remarks
+ * The SDK uses {@link AxiosTransport} by default, which works both in the
+ * browser and in node.js. For runtimes that only support the native `fetch`
+ * API, like Cloudflare Workers or Deno, use the {@link FetchTransport} instead.
+ * It is also picked automatically when neither `XMLHttpRequest` nor node.js
+ * are available.
+ *
+ * @remarks
+ * The transport is configured through the `transport` option of the
+ * {@link api.VodApi} (also accepted by the {@link minter.Api}). Any other HTTP
+ * client can be used by implementing the {@link Transport} interface.
+ *
+ * @example
+ * ```ts
+ * const vodApi = new VodApi({ auth: { apiKey }, transport: new FetchTransport() });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+
+import { AbortError, NetworkError } from './http';
+
+/**
+ * A request to be sent by a {@link Transport}.
+ */
+export type TransportRequest = {
+	/**
+	 * The HTTP method of the request, like `get` or `post`.
+	 */
+	method: string;
+	/**
+	 * The full URL of the request.
+	 */
+	url: string;
+	/**
+	 * Query string parameters to add to the URL. Undefined values are omitted.
+	 */
+	params?: Record<string, string | number | undefined>;
+	/**
+	 * Additional headers to send in the request.
+	 */
+	headers?: Record<string, string>;
+	/**
+	 * The body of the request. Plain objects are sent as JSON, while a `Blob`,
+	 * binary buffers, strings and streams are sent as is.
+	 */
+	data?: any;
+	/**
+	 * An optional signal for aborting the request.
+	 */
+	signal?: AbortSignal;
+	/**
+	 * An optional callback to be called with the amount of bytes of the body
+	 * sent so far, if supported by the transport.
+	 */
+	onUploadProgress?: (loaded: number) => void;
+	/**
+	 * How to read the body of successful responses. Defaults to `json`, which
+	 * parses it as JSON when possible or returns it as a string otherwise. With
+	 * `binary`, the raw body is returned as a `Uint8Array`.
+	 */
+	responseType?: 'json' | 'binary';
+};
+
+/**
+ * A response received by a {@link Transport}.
+ */
+export type TransportResponse<T = any> = {
+	/**
+	 * The HTTP status code of the response.
+	 */
+	status: number;
+	/**
+	 * The HTTP status text of the response.
+	 */
+	statusText: string;
+	/**
+	 * The response headers, with lower-case names.
+	 */
+	headers: Record<string, string>;
+	/**
+	 * The body of the response, parsed as JSON when possible or as a string
+	 * otherwise. Check the `responseType` of the {@link TransportRequest}.
+	 */
+	data: T;
+};
+
+/**
+ * The interface for the HTTP clients used by the SDK.
+ *
+ * @remarks
+ * Implementations must resolve with the response for any HTTP status, leaving
+ * the error handling and retries to the SDK. Failures to get any response at
+ * all must be thrown as a {@link api.NetworkError}, and aborted requests as an
+ * {@link api.AbortError}, so that the same error semantics apply regardless of
+ * the transport.
+ */
+export interface Transport {
+	request<T = any>(req: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Transport that sends the requests with `axios`. Works both in the browser,
+ * through `XMLHttpRequest`, and in node.js.
+ */
+export class AxiosTransport implements Transport {
+	private client: AxiosInstance;
+
+	/**
+	 * Creates a new `AxiosTransport`.
+	 *
+	 * @param client An optional custom `axios` instance to use, e.g. with some
+	 * interceptors. The `validateStatus` option is always overridden since
+	 * errors are handled by the SDK.
+	 */
+	constructor(client?: AxiosInstance) {
+		this.client =
+			client ??
+			axios.create({
+				maxContentLength: Infinity,
+				maxBodyLength: Infinity
+			});
+	}
+
+	async request<T>(req: TransportRequest): Promise<TransportResponse<T>> {
+		const { onUploadProgress } = req;
+		const binary = req.responseType === 'binary';
+		const config: AxiosRequestConfig = {
+			method: req.method as AxiosRequestConfig['method'],
+			url: req.url,
+			params: req.params,
+			headers: req.headers,
+			data: req.data,
+			signal: req.signal,
+			responseType: binary ? 'arraybuffer' : undefined,
+			validateStatus: () => true,
+			onUploadProgress:
+				onUploadProgress &&
+				((p: ProgressEvent) => onUploadProgress(p.loaded))
+		};
+		if (isNodeStream(req.data)) {
+			// redirects would require buffering the whole stream in memory
+			config.maxRedirects = 0;
+		}
+		try {
+			const res = await this.client.request(config);
+			let { data } = res;
+			if (binary) {
+				const bytes = new Uint8Array(data);
+				// errors are still parsed, so that their messages are readable
+				data =
+					res.status < 300
+						? bytes
+						: parseBody(new TextDecoder().decode(bytes));
+			}
+			return {
+				status: res.status,
+				statusText: res.statusText,
+				headers: res.headers,
+				data
+			};
+		} catch (err: any) {
+			if (axios.isCancel(err)) {
+				throw new AbortError();
+			}
+			throw new NetworkError(err?.message ?? String(err), err);
+		}
+	}
+}
+
+/**
+ * Transport that sends the requests with the native `fetch` API, for runtimes
+ * like Cloudflare Workers, Deno or node.js 18+.
+ *
+ * @remarks
+ * Streams are uploaded without buffering when the runtime supports streaming
+ * request bodies, which is also required for reporting the upload progress.
+ * Otherwise the progress is only reported once the whole body is sent.
+ */
+export class FetchTransport implements Transport {
+	private fetch: typeof fetch;
+
+	/**
+	 * Creates a new `FetchTransport`.
+	 *
+	 * @param fetchFn An optional custom `fetch` function. Defaults to the global
+	 * `fetch`.
+	 */
+	constructor(fetchFn?: typeof fetch) {
+		const globalFetch = typeof fetch === 'function' ? fetch : undefined;
+		const impl = fetchFn ?? globalFetch;
+		if (!impl) {
+			throw new Error('fetch is not available in this runtime');
+		}
+		// avoid "illegal invocation" errors from calling fetch as a method
+		this.fetch = (input, init) => impl(input, init);
+	}
+
+	async request<T>(req: TransportRequest): Promise<TransportResponse<T>> {
+		const headers: Record<string, string> = { ...req.headers };
+		const { body, duplex } = toFetchBody(
+			req.data,
+			headers,
+			req.onUploadProgress
+		);
+		let res: Response;
+		try {
+			res = await this.fetch(withQuery(req.url, req.params), {
+				method: req.method.toUpperCase(),
+				headers,
+				body,
+				signal: req.signal,
+				...(duplex ? { duplex } : {})
+			} as RequestInit);
+		} catch (err: any) {
+			if (err?.name === 'AbortError' || req.signal?.aborted) {
+				throw new AbortError();
+			}
+			throw new NetworkError(err?.message ?? String(err), err);
+		}
+		if (!duplex && body != null) {
+			req.onUploadProgress?.(bodySize(body) ?? 0);
+		}
+
+		const responseHeaders: Record<string, string> = {};
+		res.headers.forEach((value, key) => {
+			responseHeaders[key.toLowerCase()] = value;
+		});
+		const binary = req.responseType === 'binary' && res.ok;
+		let data: any;
+		try {
+			data = binary
+				? new Uint8Array(await res.arrayBuffer())
+				: parseBody(await res.text());
+		} catch (err: any) {
+			if (req.signal?.aborted) {
+				throw new AbortError();
+			}
+			throw new NetworkError(err?.message ?? String(err), err);
+		}
+		return {
+			status: res.status,
+			statusText: res.statusText,
+			headers: responseHeaders,
+			data
+		};
+	}
+}
+
+/**
+ * Creates the default transport for the current runtime. This is an
+ * {@link AxiosTransport} in the browser and node.js, or a
+ * {@link FetchTransport} in runtimes that only support `fetch`.
+ */
+export function defaultTransport(): Transport {
+	const hasXhr = typeof XMLHttpRequest !== 'undefined';
+	const isNode = typeof process !== 'undefined' && !!process.versions?.node;
+	if (!hasXhr && !isNode && typeof fetch === 'function') {
+		return new FetchTransport();
+	}
+	return new AxiosTransport();
+}
+
+function isNodeStream(data: any): data is NodeJS.ReadableStream {
+	return (
+		!!data &&
+		typeof data.pipe === 'function' &&
+		typeof data.on === 'function'
+	);
+}
+
+function isBinary(data: any) {
+	return (
+		(typeof Blob !== 'undefined' && data instanceof Blob) ||
+		data instanceof ArrayBuffer ||
+		ArrayBuffer.isView(data) ||
+		(typeof ReadableStream !== 'undefined' &&
+			data instanceof ReadableStream) ||
+		(typeof URLSearchParams !== 'undefined' &&
+			data instanceof URLSearchParams) ||
+		(typeof FormData !== 'undefined' && data instanceof FormData)
+	);
+}
+
+function toFetchBody(
+	data: any,
+	headers: Record<string, string>,
+	onUploadProgress?: (loaded: number) => void
+): { body?: BodyInit; duplex?: 'half' } {
+	if (data == null) {
+		return {};
+	}
+	if (typeof data === 'string') {
+		return { body: data };
+	}
+	const isBlob = typeof Blob !== 'undefined' && data instanceof Blob;
+	if (isNodeStream(data) || (isBlob && onUploadProgress)) {
+		if (!supportsRequestStreams()) {
+			if (isBlob) {
+				return { body: data };
+			}
+			throw new Error(
+				'Streaming uploads are not supported by the fetch in this runtime'
+			);
+		}
+		const stream = isBlob
+			? ((data as Blob).stream() as unknown as ReadableStream<Uint8Array>)
+			: nodeToWebStream(data as NodeJS.ReadableStream);
+		return {
+			body: onUploadProgress
+				? countBytes(stream, onUploadProgress)
+				: stream,
+			duplex: 'half'
+		};
+	}
+	if (isBinary(data)) {
+		return { body: data };
+	}
+	if (!Object.keys(headers).some(h => h.toLowerCase() === 'content-type')) {
+		headers['Content-Type'] = 'application/json';
+	}
+	return { body: JSON.stringify(data) };
+}
+
+function nodeToWebStream(stream: NodeJS.ReadableStream) {
+	const iter = (stream as any)[Symbol.asyncIterator]() as AsyncIterator<
+		Uint8Array | string
+	>;
+	const encoder = new TextEncoder();
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { value, done } = await iter.next();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(
+					typeof value === 'string' ? encoder.encode(value) : value
+				);
+			}
+		},
+		async cancel() {
+			await iter.return?.();
+		}
+	});
+}
+
+function countBytes(
+	stream: ReadableStream<Uint8Array>,
+	onUploadProgress: (loaded: number) => void
+) {
+	let loaded = 0;
+	const reader = stream.getReader();
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { value, done } = await reader.read();
+			if (done) {
+				controller.close();
+				return;
+			}
+			loaded += value.byteLength;
+			onUploadProgress(loaded);
+			controller.enqueue(value);
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		}
+	});
+}
+
+let requestStreamsSupport: boolean | undefined;
+
+// Feature detection for streaming request bodies, as recommended in
+// https://developer.chrome.com/articles/fetch-streaming-requests/
+function supportsRequestStreams() {
+	if (requestStreamsSupport === undefined) {
+		try {
+			let duplexAccessed = false;
+			const hasContentType = new Request('http://localhost', {
+				body: new ReadableStream(),
+				method: 'POST',
+				get duplex() {
+					duplexAccessed = true;
+					return 'half';
+				}
+			} as RequestInit).headers.has('Content-Type');
+			requestStreamsSupport = duplexAccessed && !hasContentType;
+		} catch (err) {
+			requestStreamsSupport = false;
+		}
+	}
+	return requestStreamsSupport;
+}
+
+function bodySize(body: BodyInit) {
+	return typeof body === 'string'
+		? body.length
+		: typeof Blob !== 'undefined' && body instanceof Blob
+		? body.size
+		: body instanceof ArrayBuffer || ArrayBuffer.isView(body)
+		? body.byteLength
+		: undefined;
+}
+
+function withQuery(url: string, params?: TransportRequest['params']) {
+	const query = Object.entries(params ?? {})
+		.filter(([, value]) => value !== undefined)
+		.map(
+			([key, value]) =>
+				`${encodeURIComponent(key)}=${encodeURIComponent(
+					String(value)
+				)}`
+		)
+		.join('&');
+	if (!query) {
+		return url;
+	}
+	return url + (url.includes('?') ? '&' : '?') + query;
+}
+
+function parseBody(text: string) {
+	if (!text) {
+		return text;
+	}
+	try {
+		return JSON.parse(text);
+	} catch (err) {
+		return text;
+	}
+}
@@ -0,0 +1,332 @@
+/* tslint:disable */
+/**
+ * This file was automatically generated by scripts/generate-json-schema.js.
+ * DO NOT MODIFY IT BY HAND. Instead, modify the source JSON schemas in
+ * api-schema.json, and run `yarn build:schema` to regenerate this file.
+ */
+
+export type JsonSchema = {
+	type?: JsonSchemaType | JsonSchemaType[];
+	enum?: readonly unknown[];
+	properties?: Record<string, JsonSchema>;
+	required?: readonly string[];
+	additionalProperties?: boolean | JsonSchema;
+	items?: JsonSchema;
+	anyOf?: readonly JsonSchema[];
+};
+
+export type JsonSchemaType =
+	| 'string'
+	| 'number'
+	| 'integer'
+	| 'boolean'
+	| 'object'
+	| 'array'
+	| 'null';
+
+export const trackSchema: JsonSchema = {
+	type: 'object',
+	required: ['type', 'codec'],
+	properties: {
+		type: { type: 'string', enum: ['video', 'audio'] },
+		codec: { type: 'string' },
+		startTime: { type: 'number' },
+		duration: { type: 'number' },
+		bitrate: { type: 'number' },
+		width: { type: 'number' },
+		height: { type: 'number' },
+		pixelFormat: { type: 'string' },
+		fps: { type: 'number' },
+		channels: { type: 'number' },
+		sampleRate: { type: 'number' },
+		bitDepth: { type: 'number' }
+	}
+};
+
+export const videoSpecSchema: JsonSchema = {
+	type: 'object',
+	properties: {
+		format: { type: 'string' },
+		duration: { type: 'number' },
+		bitrate: { type: 'number' },
+		tracks: { type: 'array', items: trackSchema }
+	}
+};
+
+export const hashSchema: JsonSchema = {
+	type: 'array',
+	items: {
+		type: 'object',
+		properties: { hash: { type: 'string' }, algorithm: { type: 'string' } }
+	}
+};
+
+export const stringMapSchema: JsonSchema = {
+	type: 'object',
+	additionalProperties: { type: 'string' }
+};
+
+export const nftMetadataSchema: JsonSchema = { type: 'object' };
+
+export const pinataSchema: JsonSchema = {
+	anyOf: [
+		{
+			type: 'object',
+			required: ['jwt'],
+			properties: { jwt: { type: 'string' } }
+		},
+		{
+			type: 'object',
+			required: ['apiKey', 'apiSecret'],
+			properties: {
+				apiKey: { type: 'string' },
+				apiSecret: { type: 'string' }
+			}
+		}
+	]
+};
+
+export const ipfsDataSchema: JsonSchema = {
+	type: 'object',
+	required: ['videoFileCid'],
+	properties: {
+		videoFileCid: { type: 'string' },
+		videoFileUrl: { type: 'string' },
+		videoFileGatewayUrl: { type: 'string' },
+		nftMetadataCid: { type: 'string' },
+		nftMetadataUrl: { type: 'string' },
+		nftMetadataGatewayUrl: { type: 'string' }
+	}
+};
+
+export const assetSchema: JsonSchema = {
+	type: 'object',
+	required: ['id', 'name'],
+	properties: {
+		id: { type: 'string' },
+		type: { type: 'string', enum: ['video', 'audio'] },
+		playbackId: { type: 'string' },
+		playbackUrl: { type: 'string' },
+		downloadUrl: { type: 'string' },
+		userId: { type: 'string' },
+		deleted: { type: 'boolean' },
+		objectStoreId: { type: 'string' },
+		storage: {
+			type: 'object',
+			properties: {
+				ipfs: {
+					type: 'object',
+					properties: { nftMetadata: nftMetadataSchema }
+				}
+			}
+		},
+		status: {
+			type: 'object',
+			required: ['phase', 'updatedAt'],
+			properties: {
+				phase: { type: 'string', enum: ['waiting', 'ready', 'failed'] },
+				updatedAt: { type: 'number' },
+				errorMessage: { type: 'string' },
+				storage: {
+					type: 'object',
+					properties: {
+						ipfs: {
+							type: 'object',
+							required: ['taskIds'],
+							properties: {
+								taskIds: {
+									type: 'object',
+									properties: {
+										pending: { type: 'string' },
+										last: { type: 'string' },
+										failed: { type: 'string' }
+									}
+								},
+								data: ipfsDataSchema
+							}
+						}
+					}
+				}
+			}
+		},
+		name: { type: 'string' },
+		meta: stringMapSchema,
+		createdAt: { type: 'number' },
+		size: { type: 'number' },
+		hash: hashSchema,
+		videoSpec: videoSpecSchema,
+		sourceAssetId: { type: 'string' }
+	}
+};
+
+export const exportToIPFSOutputSchema: JsonSchema = {
+	type: 'object',
+	required: [
+		'videoFileCid',
+		'videoFileUrl',
+		'videoFileGatewayUrl',
+		'nftMetadataCid',
+		'nftMetadataUrl',
+		'nftMetadataGatewayUrl'
+	],
+	properties: {
+		videoFileCid: { type: 'string' },
+		videoFileUrl: { type: 'string' },
+		videoFileGatewayUrl: { type: 'string' },
+		nftMetadataCid: { type: 'string' },
+		nftMetadataUrl: { type: 'string' },
+		nftMetadataGatewayUrl: { type: 'string' }
+	}
+};
+
+export const ffmpegProfileSchema: JsonSchema = {
+	type: 'object',
+	required: ['name', 'width', 'height', 'bitrate', 'fps'],
+	properties: {
+		name: { type: 'string' },
+		width: { type: 'integer' },
+		height: { type: 'integer' },
+		bitrate: { type: 'integer' },
+		fps: { type: 'integer' },
+		fpsDen: { type: 'integer' },
+		gop: { type: 'string' },
+		profile: {
+			type: 'string',
+			enum: [
+				'H264Baseline',
+				'H264Main',
+				'H264High',
+				'H264ConstrainedHigh'
+			]
+		},
+		encoder: { type: 'string', enum: ['h264', 'hevc', 'vp8', 'vp9'] }
+	}
+};
+
+export const taskOutputAssetSchema: JsonSchema = {
+	type: 'object',
+	properties: {
+		videoFilePath: { type: 'string' },
+		metadataFilePath: { type: 'string' },
+		assetSpec: {
+			type: 'object',
+			required: ['name'],
+			properties: {
+				id: { type: 'string' },
+				type: { type: 'string', enum: ['video', 'audio'] },
+				name: { type: 'string' },
+				meta: stringMapSchema,
+				size: { type: 'number' },
+				hash: hashSchema,
+				videoSpec: videoSpecSchema,
+				status: {
+					type: 'string',
+					enum: ['waiting', 'ready', 'failed']
+				},
+				sourceAssetId: { type: 'string' }
+			}
+		}
+	}
+};
+
+export const taskSchema: JsonSchema = {
+	type: 'object',
+	required: ['id'],
+	properties: {
+		id: { type: 'string' },
+		userId: { type: 'string' },
+		type: { type: 'string', enum: ['import', 'export', 'transcode'] },
+		createdAt: { type: 'number' },
+		deleted: { type: 'boolean' },
+		inputAssetId: { type: 'string' },
+		outputAssetId: { type: 'string' },
+		params: {
+			type: 'object',
+			properties: {
+				import: {
+					type: 'object',
+					properties: {
+						url: { type: 'string' },
+						uploadedObjectKey: { type: 'string' }
+					}
+				},
+				export: {
+					anyOf: [
+						{
+							type: 'object',
+							required: ['custom'],
+							properties: {
+								custom: {
+									type: 'object',
+									required: ['url'],
+									properties: {
+										url: { type: 'string' },
+										method: { type: 'string' },
+										headers: stringMapSchema
+									}
+								}
+							}
+						},
+						{
+							type: 'object',
+							required: ['ipfs'],
+							properties: {
+								ipfs: {
+									type: 'object',
+									properties: {
+										pinata: pinataSchema,
+										nftMetadata: nftMetadataSchema
+									}
+								}
+							}
+						}
+					]
+				},
+				transcode: {
+					type: 'object',
+					properties: { profile: ffmpegProfileSchema }
+				}
+			}
+		},
+		status: {
+			type: 'object',
+			properties: {
+				phase: {
+					type: 'string',
+					enum: [
+						'pending',
+						'waiting',
+						'running',
+						'failed',
+						'completed',
+						'cancelled'
+					]
+				},
+				updatedAt: { type: 'number' },
+				progress: { type: 'number' },
+				errorMessage: { type: 'string' }
+			}
+		},
+		output: {
+			type: 'object',
+			properties: {
+				import: {
+					type: 'object',
+					properties: {
+						videoFilePath: { type: 'string' },
+						metadataFilePath: { type: 'string' },
+						assetSpec: assetSchema
+					}
+				},
+				export: {
+					type: 'object',
+					properties: { ipfs: exportToIPFSOutputSchema }
+				},
+				transcode: {
+					type: 'object',
+					properties: { asset: taskOutputAssetSchema }
+				}
+			}
+		}
+	}
+};
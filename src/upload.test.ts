@@ -0,0 +1,163 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { VodApi } from './api';
+import { ApiEmulator } from './emulator';
+import { AxiosTransport, Transport, TransportRequest } from './transport';
+import { MemoryUploadStore, ResumableUpload } from './upload';
+
+const fileSize = 2500;
+const chunkSize = 1000;
+
+// Transport that records the requests sent and the status of their responses,
+// and can run a hook before each request to inject failures.
+class RecordingTransport implements Transport {
+	requests: { method: string; offset?: string; status?: number }[] = [];
+	beforeRequest?: (req: TransportRequest) => Promise<void> | void;
+
+	constructor(private inner: Transport = new AxiosTransport()) {}
+
+	async request<T>(req: TransportRequest) {
+		await this.beforeRequest?.(req);
+		const entry = {
+			method: req.method,
+			offset: req.headers?.['Upload-Offset'],
+			status: undefined as number | undefined
+		};
+		this.requests.push(entry);
+		const res = await this.inner.request<T>(req);
+		entry.status = res.status;
+		return res;
+	}
+
+	patches() {
+		return this.requests.filter(r => r.method === 'patch');
+	}
+}
+
+describe('ResumableUpload', () => {
+	let emulator: ApiEmulator;
+	let api: VodApi;
+	let tmpDir: string;
+	let filePath: string;
+	let tusEndpoint: string;
+
+	beforeAll(async () => {
+		emulator = new ApiEmulator();
+		api = new VodApi({ endpoint: await emulator.start() });
+		tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'videonft-'));
+		filePath = path.join(tmpDir, 'video.mp4');
+		await fs.promises.writeFile(filePath, Buffer.alloc(fileSize, 1));
+	});
+
+	afterAll(async () => {
+		await emulator.stop();
+		await fs.promises.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	beforeEach(async () => {
+		const res = await api.requestUploadUrl('video');
+		tusEndpoint = res.tusEndpoint ?? '';
+	});
+
+	const uploadedSize = async () => {
+		const res = await new AxiosTransport().request({
+			method: 'head',
+			url: `${tusEndpoint}/upload`,
+			headers: { 'Tus-Resumable': '1.0.0' }
+		});
+		return parseInt(res.headers['upload-offset'], 10);
+	};
+
+	it('uploads the file in chunks', async () => {
+		const transport = new RecordingTransport();
+		const progress: number[] = [];
+		const upload = new ResumableUpload(
+			tusEndpoint,
+			fs.createReadStream(filePath),
+			{
+				chunkSize,
+				transport,
+				store: new MemoryUploadStore(),
+				reportProgress: p => progress.push(p)
+			}
+		);
+		await upload.start();
+
+		expect(transport.patches().map(r => r.offset)).toEqual([
+			'0',
+			'1000',
+			'2000'
+		]);
+		expect(progress).toContain(0.4);
+		expect(progress[progress.length - 1]).toBe(1);
+		expect(await uploadedSize()).toBe(fileSize);
+	});
+
+	it('resumes from the offset in the store', async () => {
+		const store = new MemoryUploadStore();
+		const failing = new RecordingTransport();
+		failing.beforeRequest = req => {
+			if (req.headers?.['Upload-Offset'] === '1000') {
+				throw new Error('connection lost');
+			}
+		};
+		const first = new ResumableUpload(
+			tusEndpoint,
+			fs.createReadStream(filePath),
+			{ chunkSize, transport: failing, store, retryDelays: [] }
+		);
+		await expect(first.start()).rejects.toThrow('connection lost');
+
+		const transport = new RecordingTransport();
+		const second = new ResumableUpload(
+			tusEndpoint,
+			fs.createReadStream(filePath),
+			{ chunkSize, transport, store }
+		);
+		await second.start();
+
+		expect(transport.requests.map(r => r.method)).toEqual([
+			'head',
+			'patch',
+			'patch'
+		]);
+		expect(transport.patches().map(r => r.offset)).toEqual([
+			'1000',
+			'2000'
+		]);
+		expect(await uploadedSize()).toBe(fileSize);
+	});
+
+	it('syncs the offset with the server after a mismatch', async () => {
+		const transport = new RecordingTransport();
+		transport.beforeRequest = async req => {
+			if (req.headers?.['Upload-Offset'] !== '1000') {
+				return;
+			}
+			// another client uploads the next 500 bytes in the meantime
+			transport.beforeRequest = undefined;
+			const data = await fs.promises.readFile(filePath);
+			await new AxiosTransport().request({
+				...req,
+				data: data.subarray(1000, 1500),
+				onUploadProgress: undefined
+			});
+		};
+		const upload = new ResumableUpload(
+			tusEndpoint,
+			fs.createReadStream(filePath),
+			{ chunkSize, transport, store: new MemoryUploadStore() }
+		);
+		await upload.start();
+
+		expect(transport.requests.slice(1)).toEqual([
+			{ method: 'patch', offset: '0', status: 204 },
+			{ method: 'patch', offset: '1000', status: 409 },
+			{ method: 'head', offset: undefined, status: 200 },
+			{ method: 'patch', offset: '1500', status: 204 }
+		]);
+		expect(await uploadedSize()).toBe(fileSize);
+	});
+});
@@ -0,0 +1,543 @@
+/**
+ * This module provides a resumable upload client for sending large files to
+ * the Livepeer API in chunks, following the
+ * {@link https://tus.io/protocols/resumable-upload.html | tus protocol}.
+ *
+ * @remarks
+ * The upload endpoint to use is the `tusEndpoint` returned by
+ * {@link api.VodApi.requestUploadUrl}. Any other tus-compatible server can be
+ * used as well, like a local server for testing your application.
+ *
+ * @remarks
+ * The easiest way to use this is through the {@link minter.Uploader} helpers
+ * instead of instantiating the {@link ResumableUpload} class directly.
+ *
+ * @packageDocumentation
+ */
+
+import fs from 'fs';
+
+import { makeRawRequest, sleep, throwIfAborted, AbortError } from './http';
+import { defaultTransport, Transport } from './transport';
+
+const tusVersion = '1.0.0';
+
+const defaultChunkSize = 16 * 1024 * 1024; // 16 MiB
+
+const defaultRetryDelays = [0, 1000, 3000, 5000];
+
+/**
+ * The state of an in-progress upload that is persisted in an
+ * {@link UploadStore} so it can be resumed later.
+ */
+export type UploadState = {
+	/**
+	 * The URL created by the tus server for this specific upload.
+	 */
+	uploadUrl: string;
+	/**
+	 * The amount of bytes already uploaded to the server.
+	 */
+	offset: number;
+	/**
+	 * The total size of the file being uploaded.
+	 */
+	size: number;
+	/**
+	 * Timestamp (in milliseconds) of the last time the state was updated.
+	 */
+	updatedAt: number;
+};
+
+/**
+ * A storage for the state of in-progress uploads, which allows resuming them
+ * even after the application is restarted.
+ *
+ * @remarks
+ * The SDK provides a {@link MemoryUploadStore}, a {@link WebStorageUploadStore}
+ * for the browser and a {@link FileUploadStore} for node.js. You can implement
+ * this interface to persist the state anywhere else.
+ */
+export interface UploadStore {
+	get(key: string): Promise<UploadState | null> | UploadState | null;
+	set(key: string, state: UploadState): Promise<void> | void;
+	remove(key: string): Promise<void> | void;
+}
+
+/**
+ * Upload store that keeps the state only in memory. Uploads can be resumed only
+ * while the current process is running.
+ */
+export class MemoryUploadStore implements UploadStore {
+	private states = new Map<string, UploadState>();
+
+	get(key: string) {
+		return this.states.get(key) ?? null;
+	}
+
+	set(key: string, state: UploadState) {
+		this.states.set(key, state);
+	}
+
+	remove(key: string) {
+		this.states.delete(key);
+	}
+}
+
+/**
+ * Browser-only: Upload store that persists the state in a web `Storage`,
+ * defaulting to `window.localStorage`.
+ */
+export class WebStorageUploadStore implements UploadStore {
+	/**
+	 * Creates a new `WebStorageUploadStore`.
+	 *
+	 * @param storage The web storage to use. Defaults to `localStorage`.
+	 *
+	 * @param prefix A prefix to add to the keys saved in the storage.
+	 */
+	constructor(
+		private storage: Storage = localStorage,
+		private prefix = 'videonft-upload:'
+	) {}
+
+	get(key: string) {
+		const value = this.storage.getItem(this.prefix + key);
+		return value ? (JSON.parse(value) as UploadState) : null;
+	}
+
+	set(key: string, state: UploadState) {
+		this.storage.setItem(this.prefix + key, JSON.stringify(state));
+	}
+
+	remove(key: string) {
+		this.storage.removeItem(this.prefix + key);
+	}
+}
+
+/**
+ * Node-only: Upload store that persists the state of all uploads in a single
+ * JSON file in the filesystem.
+ */
+export class FileUploadStore implements UploadStore {
+	/**
+	 * Creates a new `FileUploadStore`.
+	 *
+	 * @param path The path of the JSON file to save the state in. It will be
+	 * created if it doesn't exist.
+	 */
+	constructor(private path: string) {}
+
+	async get(key: string) {
+		const states = await this.readAll();
+		return states[key] ?? null;
+	}
+
+	async set(key: string, state: UploadState) {
+		const states = await this.readAll();
+		await this.writeAll({ ...states, [key]: state });
+	}
+
+	async remove(key: string) {
+		const { [key]: _, ...states } = await this.readAll();
+		await this.writeAll(states);
+	}
+
+	private async readAll(): Promise<Record<string, UploadState>> {
+		try {
+			const contents = await fs.promises.readFile(this.path, 'utf8');
+			return JSON.parse(contents);
+		} catch (err: any) {
+			if (err.code === 'ENOENT') {
+				return {};
+			}
+			throw err;
+		}
+	}
+
+	private async writeAll(states: Record<string, UploadState>) {
+		await fs.promises.writeFile(this.path, JSON.stringify(states, null, 2));
+	}
+}
+
+/**
+ * The contents that can be uploaded with a {@link ResumableUpload}. A `File`
+ * (or any `Blob`) from the browser or a `fs.ReadStream` from node.js.
+ *
+ * @remarks
+ * Generic node.js streams are not supported since the file must be read from
+ * arbitrary offsets when resuming the upload. Use `fs.createReadStream` or
+ * {@link minter.Uploader.openFile} to get a supported stream.
+ */
+export type ResumableContent = File | Blob | fs.ReadStream;
+
+/**
+ * Options for a {@link ResumableUpload}.
+ */
+export type ResumableUploadOptions = {
+	/**
+	 * Size of each chunk sent to the server, in bytes. Defaults to 16 MiB.
+	 */
+	chunkSize?: number;
+	/**
+	 * Delays (in milliseconds) to wait before each retry of a failed chunk. The
+	 * upload fails after all of them are exhausted for the same chunk.
+	 */
+	retryDelays?: number[];
+	/**
+	 * Store for persisting the state of the upload. Defaults to the browser
+	 * `localStorage` if available, or an in-memory store otherwise.
+	 */
+	store?: UploadStore;
+	/**
+	 * Additional metadata to send to the server when creating the upload.
+	 */
+	metadata?: Record<string, string>;
+	/**
+	 * An optional `mimeType` for the file. Defaults to the `File` type or
+	 * `octet-stream` otherwise.
+	 */
+	mimeType?: string;
+	/**
+	 * An optional callback that will be called with the upload progress, as a
+	 * number from 0 to 1.
+	 */
+	reportProgress?: (progress: number) => void;
+	/**
+	 * An optional signal to abort the upload altogether. Unlike {@link
+	 * ResumableUpload.pause}, this makes the promise returned by
+	 * {@link ResumableUpload.start} reject with an {@link api.AbortError}. The
+	 * upload state is kept in the store, so it can still be resumed later.
+	 */
+	signal?: AbortSignal;
+	/**
+	 * The HTTP transport to use for the upload requests. Defaults to the same
+	 * default as for the API requests (check {@link transport}).
+	 */
+	transport?: Transport;
+};
+
+type ChunkSource = {
+	size: number;
+	fingerprint: string;
+	mimeType: string;
+	read(start: number, end: number): Promise<Blob | Buffer>;
+};
+
+/**
+ * Uploads a file in chunks to a tus server, retrying failed chunks and
+ * allowing the upload to be paused and resumed.
+ *
+ * @remarks
+ * The upload offset is persisted in the configured {@link UploadStore} after
+ * every chunk. Creating a new `ResumableUpload` for the same file and endpoint
+ * will resume from where the last one stopped, even across different
+ * processes if using a persistent store.
+ *
+ * @example
+ * ```ts
+ * const { tusEndpoint } = await api.requestUploadUrl('My NFT');
+ * const upload = new ResumableUpload(tusEndpoint, file, {
+ *   reportProgress: p => console.log(`progress: ${100 * p}%`)
+ * });
+ * pauseButton.onclick = () => upload.pause();
+ * resumeButton.onclick = () => upload.resume();
+ * await upload.start();
+ * ```
+ */
+export class ResumableUpload {
+	private offset = 0;
+	private uploadUrl?: string;
+	private running?: Promise<void>;
+	private abortController?: AbortController;
+	private resumed: Promise<void> = Promise.resolve();
+	private resolveResumed?: () => void;
+	private paused = false;
+	private transport: Transport;
+
+	/**
+	 * Creates a new `ResumableUpload`. The upload will only start when
+	 * {@link start} is called.
+	 *
+	 * @param endpoint The tus endpoint on which to create the upload, normally
+	 * the `tusEndpoint` returned by {@link api.VodApi.requestUploadUrl}.
+	 *
+	 * @param content The content of the file to upload.
+	 *
+	 * @param opts Additional options for the upload.
+	 */
+	constructor(
+		private endpoint: string,
+		private content: ResumableContent,
+		private opts: ResumableUploadOptions = {}
+	) {
+		this.transport = opts.transport ?? defaultTransport();
+	}
+
+	/**
+	 * Whether the upload is currently paused.
+	 */
+	get isPaused() {
+		return this.paused;
+	}
+
+	/**
+	 * Starts the upload, or resumes a previous upload of the same file if one is
+	 * found in the {@link UploadStore}.
+	 *
+	 * @returns A promise that will be completed when the whole file has been
+	 * uploaded. It stays pending while the upload is paused. Calling this again
+	 * returns the same promise.
+	 */
+	start() {
+		if (!this.running) {
+			this.opts.signal?.addEventListener('abort', this.onAbort, {
+				once: true
+			});
+			this.running = this.run();
+			this.running.catch(() => (this.running = undefined));
+		}
+		return this.running;
+	}
+
+	/**
+	 * Pauses the upload, aborting the chunk currently in flight. The promise
+	 * returned by {@link start} will stay pending until {@link resume} is called.
+	 */
+	pause() {
+		if (this.paused) {
+			return;
+		}
+		this.paused = true;
+		this.resumed = new Promise(resolve => (this.resolveResumed = resolve));
+		this.abortController?.abort();
+	}
+
+	/**
+	 * Resumes a paused upload from the last offset acknowledged by the server.
+	 */
+	resume() {
+		if (!this.paused) {
+			return;
+		}
+		this.paused = false;
+		this.resolveResumed?.();
+	}
+
+	private onAbort = () => {
+		this.abortController?.abort();
+		// wake up a paused upload so that it can fail with the abort error
+		this.resolveResumed?.();
+	};
+
+	private async run() {
+		const {
+			retryDelays = defaultRetryDelays,
+			store = defaultStore(),
+			reportProgress,
+			signal
+		} = this.opts;
+		const source = await toChunkSource(this.content, this.opts.mimeType);
+		const storeKey = `${this.endpoint}|${source.fingerprint}`;
+
+		await this.resumed;
+		throwIfAborted(signal);
+		await this.findOrCreateUpload(source, store, storeKey);
+
+		let attempt = 0;
+		let needsSync = false;
+		while (this.offset < source.size) {
+			await this.resumed;
+			throwIfAborted(signal);
+			try {
+				if (needsSync) {
+					this.offset = await this.fetchOffset();
+					needsSync = false;
+					continue;
+				}
+				this.offset = await this.uploadChunk(source);
+				attempt = 0;
+				await store.set(storeKey, {
+					uploadUrl: this.uploadUrl ?? '',
+					offset: this.offset,
+					size: source.size,
+					updatedAt: Date.now()
+				});
+				reportProgress?.(this.offset / source.size);
+			} catch (err) {
+				needsSync = true;
+				if (err instanceof AbortError && signal?.aborted) {
+					throw err;
+				}
+				if (this.paused) {
+					continue;
+				}
+				if (attempt >= retryDelays.length) {
+					throw err;
+				}
+				await sleep(retryDelays[attempt++], signal);
+			}
+		}
+		await store.remove(storeKey);
+		if (source.size === 0) {
+			reportProgress?.(1);
+		}
+	}
+
+	private async findOrCreateUpload(
+		source: ChunkSource,
+		store: UploadStore,
+		storeKey: string
+	) {
+		const state = await store.get(storeKey);
+		if (state && state.size === source.size) {
+			try {
+				this.uploadUrl = state.uploadUrl;
+				this.offset = await this.fetchOffset();
+				return;
+			} catch (err) {
+				if (err instanceof AbortError) {
+					throw err;
+				}
+				// the server might have expired the upload, so start a new one
+				await store.remove(storeKey);
+			}
+		}
+
+		const metadata = {
+			filetype: source.mimeType,
+			...this.opts.metadata
+		};
+		const res = await makeRawRequest(this.transport, {
+			method: 'post',
+			url: this.endpoint,
+			headers: {
+				'Tus-Resumable': tusVersion,
+				'Upload-Length': source.size.toString(),
+				'Upload-Metadata': Object.entries(metadata)
+					.map(([key, value]) => `${key} ${toBase64(value)}`)
+					.join(',')
+			},
+			signal: this.opts.signal
+		});
+		const location = res.headers['location'];
+		if (!location) {
+			throw new Error('tus server did not return an upload location');
+		}
+		this.uploadUrl = resolveUrl(location, this.endpoint);
+		this.offset = 0;
+		await store.set(storeKey, {
+			uploadUrl: this.uploadUrl,
+			offset: 0,
+			size: source.size,
+			updatedAt: Date.now()
+		});
+	}
+
+	private async fetchOffset() {
+		const res = await makeRawRequest(this.transport, {
+			method: 'head',
+			url: this.uploadUrl ?? '',
+			headers: { 'Tus-Resumable': tusVersion },
+			signal: this.opts.signal
+		});
+		return parseOffset(res.headers['upload-offset']);
+	}
+
+	private async uploadChunk(source: ChunkSource) {
+		const { chunkSize = defaultChunkSize, reportProgress } = this.opts;
+		const start = this.offset;
+		const end = Math.min(start + chunkSize, source.size);
+		const chunk = await source.read(start, end);
+
+		this.abortController = new AbortController();
+		try {
+			const res = await makeRawRequest(this.transport, {
+				method: 'patch',
+				url: this.uploadUrl ?? '',
+				data: chunk,
+				headers: {
+					'Tus-Resumable': tusVersion,
+					'Upload-Offset': start.toString(),
+					'Content-Type': 'application/offset+octet-stream'
+				},
+				signal: this.abortController.signal,
+				onUploadProgress:
+					reportProgress &&
+					(loaded => reportProgress((start + loaded) / source.size))
+			});
+			return parseOffset(res.headers['upload-offset']);
+		} finally {
+			this.abortController = undefined;
+		}
+	}
+}
+
+function defaultStore(): UploadStore {
+	return typeof localStorage !== 'undefined'
+		? new WebStorageUploadStore()
+		: new MemoryUploadStore();
+}
+
+async function toChunkSource(
+	content: ResumableContent,
+	mimeType?: string
+): Promise<ChunkSource> {
+	if (typeof Blob !== 'undefined' && content instanceof Blob) {
+		const isFile = typeof File !== 'undefined' && content instanceof File;
+		const { name = '', lastModified = 0 } = isFile ? (content as File) : {};
+		return {
+			size: content.size,
+			fingerprint: ['blob', name, content.size, lastModified].join('-'),
+			mimeType: mimeType || content.type || 'application/octet-stream',
+			read: async (start, end) => content.slice(start, end)
+		};
+	}
+	if (
+		typeof fs.ReadStream === 'function' &&
+		content instanceof fs.ReadStream
+	) {
+		const path = content.path.toString();
+		const { size, mtimeMs } = await fs.promises.stat(path);
+		return {
+			size,
+			fingerprint: ['file', path, size, mtimeMs].join('-'),
+			mimeType: mimeType || 'application/octet-stream',
+			read: (start, end) => readFileRange(path, start, end)
+		};
+	}
+	throw new Error(
+		'Resumable uploads only support a File from the browser or a fs.ReadStream from node.js'
+	);
+}
+
+function readFileRange(path: string, start: number, end: number) {
+	return new Promise<Buffer>((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		fs.createReadStream(path, { start, end: end - 1 })
+			.on('data', chunk => chunks.push(chunk as Buffer))
+			.on('error', reject)
+			.on('end', () => resolve(Buffer.concat(chunks)));
+	});
+}
+
+function parseOffset(header?: string) {
+	const offset = parseInt(header ?? '', 10);
+	if (isNaN(offset)) {
+		throw new Error(`Invalid Upload-Offset from tus server: ${header}`);
+	}
+	return offset;
+}
+
+function resolveUrl(location: string, base: string) {
+	try {
+		return new URL(location, base).toString();
+	} catch (err) {
+		return location;
+	}
+}
+
+const toBase64 = (str: string) =>
+	typeof Buffer !== 'undefined'
+		? Buffer.from(str, 'utf8').toString('base64')
+		: btoa(unescape(encodeURIComponent(str)));
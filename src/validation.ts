@@ -0,0 +1,198 @@
+/**
+ * This module provides runtime validation of the objects returned by the
+ * Livepeer API, against the same JSON schemas from which the SDK types are
+ * generated.
+ *
+ * @remarks
+ * Validation is opt-in for the API responses and can be enabled with the
+ * `validate` option of the {@link api.VodApi} (also accepted by the
+ * {@link minter.Api}). The validation functions here can also be called
+ * directly for objects obtained in any other way, like from a webhook.
+ *
+ * @packageDocumentation
+ */
+
+import { Asset, ExportToIPFSOutput, Task } from './types/schema';
+import {
+	assetSchema,
+	exportToIPFSOutputSchema,
+	taskSchema,
+	JsonSchema,
+	JsonSchemaType
+} from './types/jsonSchema';
+
+/**
+ * A single problem found when validating an object against its schema.
+ */
+export type ValidationIssue = {
+	/**
+	 * Path of the invalid field, like `asset.videoSpec.tracks[0].codec`.
+	 */
+	path: string;
+	/**
+	 * Description of the problem with the field.
+	 */
+	message: string;
+};
+
+/**
+ * Error thrown when an object does not match its expected schema. The message
+ * contains all the issues found, which are also available in the `issues`
+ * field.
+ */
+export class ValidationError extends Error {
+	readonly issues: ValidationIssue[];
+
+	constructor(issues: ValidationIssue[]) {
+		super(
+			`Invalid API response: ${issues
+				.map(i => `${i.path} ${i.message}`)
+				.join('; ')}`
+		);
+		this.name = 'ValidationError';
+		this.issues = issues;
+	}
+}
+
+/**
+ * Validates that an object is a valid {@link Asset}.
+ *
+ * @param value The object to validate.
+ *
+ * @param path The name of the object to use in the issues paths. Defaults to
+ * `asset`.
+ *
+ * @returns The same object, typed as an `Asset`. Throws a
+ * {@link ValidationError} if invalid.
+ */
+export function validateAsset(value: unknown, path = 'asset') {
+	return validate<Asset>(assetSchema, value, path);
+}
+
+/**
+ * Validates that an object is a valid {@link Task}.
+ *
+ * @param value The object to validate.
+ *
+ * @param path The name of the object to use in the issues paths. Defaults to
+ * `task`.
+ *
+ * @returns The same object, typed as a `Task`. Throws a
+ * {@link ValidationError} if invalid.
+ */
+export function validateTask(value: unknown, path = 'task') {
+	return validate<Task>(taskSchema, value, path);
+}
+
+/**
+ * Validates that an object is a complete {@link ExportToIPFSOutput}, with all
+ * the CIDs and URLs of the exported files.
+ *
+ * @param value The object to validate.
+ *
+ * @param path The name of the object to use in the issues paths. Defaults to
+ * `task.output.export.ipfs`.
+ *
+ * @returns The same object, typed as an `ExportToIPFSOutput`. Throws a
+ * {@link ValidationError} if invalid.
+ */
+export function validateExportToIPFSOutput(
+	value: unknown,
+	path = 'task.output.export.ipfs'
+) {
+	return validate<ExportToIPFSOutput>(exportToIPFSOutputSchema, value, path);
+}
+
+function validate<T>(schema: JsonSchema, value: unknown, path: string) {
+	const issues = checkSchema(schema, value, path);
+	if (issues.length > 0) {
+		throw new ValidationError(issues);
+	}
+	return value as T;
+}
+
+function checkSchema(
+	schema: JsonSchema,
+	value: unknown,
+	path: string
+): ValidationIssue[] {
+	if (schema.anyOf) {
+		const results = schema.anyOf.map(s => checkSchema(s, value, path));
+		if (results.some(issues => issues.length === 0)) {
+			return [];
+		}
+		// report the alternative that got the furthest
+		return results.reduce((a, b) => (b.length < a.length ? b : a));
+	}
+
+	const types = !schema.type
+		? null
+		: Array.isArray(schema.type)
+		? schema.type
+		: [schema.type];
+	const actual = typeOf(value);
+	if (
+		types &&
+		!types.includes(actual as JsonSchemaType) &&
+		!(actual === 'integer' && types.includes('number'))
+	) {
+		const received = value === undefined ? 'missing' : actual;
+		return [
+			{ path, message: `must be ${types.join(' or ')}, got ${received}` }
+		];
+	}
+	if (schema.enum && !schema.enum.includes(value)) {
+		const allowed = schema.enum.map(v => JSON.stringify(v)).join(', ');
+		return [
+			{
+				path,
+				message: `must be one of ${allowed}, got ${JSON.stringify(
+					value
+				)}`
+			}
+		];
+	}
+
+	if (actual === 'array' && schema.items) {
+		const items = schema.items;
+		const issues: ValidationIssue[] = [];
+		(value as unknown[]).forEach((item, idx) =>
+			issues.push(...checkSchema(items, item, `${path}[${idx}]`))
+		);
+		return issues;
+	}
+	if (actual !== 'object') {
+		return [];
+	}
+
+	const obj = value as Record<string, unknown>;
+	const issues: ValidationIssue[] = [];
+	for (const key of schema.required ?? []) {
+		if (obj[key] === undefined) {
+			issues.push({ path: `${path}.${key}`, message: 'is required' });
+		}
+	}
+	for (const [key, fieldValue] of Object.entries(obj)) {
+		const fieldSchema =
+			schema.properties?.[key] ??
+			(typeof schema.additionalProperties === 'object'
+				? schema.additionalProperties
+				: undefined);
+		if (fieldSchema && fieldValue !== undefined) {
+			issues.push(
+				...checkSchema(fieldSchema, fieldValue, `${path}.${key}`)
+			);
+		}
+	}
+	return issues;
+}
+
+function typeOf(value: unknown): string {
+	return value === null
+		? 'null'
+		: Array.isArray(value)
+		? 'array'
+		: Number.isInteger(value)
+		? 'integer'
+		: typeof value;
+}
@@ -1,6 +1,27 @@
 import * as api from './api';
 import * as chains from './chains';
+import * as metadata from './metadata';
 import * as minter from './minter';
+import * as pinning from './pinning';
+import * as pipeline from './pipeline';
+import * as playback from './playback';
+import * as targets from './targets';
 import * as transcode from './transcode';
+import * as transport from './transport';
+import * as upload from './upload';
+import * as validation from './validation';
 
-export { api, chains, minter, transcode };
+export {
+	api,
+	chains,
+	metadata,
+	minter,
+	pinning,
+	pipeline,
+	playback,
+	targets,
+	transcode,
+	transport,
+	upload,
+	validation
+};
@@ -0,0 +1,63 @@
+import { signWebhook, WebhookReceiver, WebhookSignatureError } from './webhook';
+
+// A webhook call as sent by the Livepeer API, signed with `secret`.
+const fixture = {
+	secret: 'whsec_livepeer_test',
+	body: '{"id":"9f0c4a1e-5b7d-4c2a-8e3f-1d2b3c4d5e6f","webhookId":"3c9e2b7a-0d4f-4e8b-9a1c-6f5e4d3c2b1a","createdAt":1650000000000,"timestamp":1650000000000,"event":"task.updated","stream":null,"payload":{"task":{"id":"b2e1f6c8-7a3d-4b9e-8c5f-2a1b0c9d8e7f","type":"export","status":{"phase":"completed","updatedAt":1649999999000,"progress":1}}}}',
+	signature:
+		't=1650000000000,v1=ade7a284ab874e549d6b4eca1f56214e069e8f2fb53481dec737c5fb31ccba30'
+};
+
+describe('WebhookReceiver', () => {
+	let receiver: WebhookReceiver;
+
+	beforeEach(() => {
+		jest.useFakeTimers().setSystemTime(1650000060000);
+		receiver = new WebhookReceiver({ secret: fixture.secret });
+	});
+
+	afterEach(() => jest.useRealTimers());
+
+	it('verifies the signature of the raw body', () => {
+		const event = receiver.handleEvent(fixture.body, fixture.signature);
+
+		expect(event.event).toBe('task.updated');
+		expect(event.task?.status?.phase).toBe('completed');
+		expect(
+			receiver.latestTask('b2e1f6c8-7a3d-4b9e-8c5f-2a1b0c9d8e7f')
+		).toEqual(event.task);
+	});
+
+	it('verifies the signature of a raw buffer body', () => {
+		const event = receiver.handleEvent(
+			Buffer.from(fixture.body),
+			fixture.signature
+		);
+
+		expect(event.id).toBe('9f0c4a1e-5b7d-4c2a-8e3f-1d2b3c4d5e6f');
+	});
+
+	it('rejects a modified body', () => {
+		const body = fixture.body.replace('completed', 'failed');
+
+		expect(() => receiver.handleEvent(body, fixture.signature)).toThrow(
+			new WebhookSignatureError('Invalid webhook signature')
+		);
+	});
+
+	it('rejects old signatures', () => {
+		jest.setSystemTime(1650000000000 + 10 * 60 * 1000);
+
+		expect(() =>
+			receiver.handleEvent(fixture.body, fixture.signature)
+		).toThrow(new WebhookSignatureError('Webhook signature is too old'));
+	});
+});
+
+describe('signWebhook', () => {
+	it('signs like the Livepeer API', () => {
+		expect(signWebhook(fixture.secret, fixture.body, 1650000000000)).toBe(
+			fixture.signature
+		);
+	});
+});
@@ -0,0 +1,315 @@
+/**
+ * This module provides a receiver for the webhooks sent by the Livepeer API,
+ * allowing tasks to be tracked in an event-driven way instead of polling.
+ *
+ * @remarks
+ * This module is only supported in node.js, since it needs an HTTP server to
+ * receive the webhook calls, so it is not included in the main entry point of
+ * the SDK. Import it from `@livepeer/video-nft/webhook` instead. Configure a
+ * webhook in the Livepeer API pointing to a public URL of your server, and pass
+ * the webhook secret to the {@link WebhookReceiver}.
+ *
+ * @remarks
+ * The receiver can be passed in the `webhooks` option of the
+ * {@link minter.Api} so that all the waits for tasks (e.g. in `createAsset`,
+ * `nftNormalize` and `exportToIPFS`) are resolved as soon as the corresponding
+ * webhook is received. Polling is still used as a fallback, with a much longer
+ * interval, in case any webhook is lost.
+ *
+ * @example
+ * ```ts
+ * const webhooks = new WebhookReceiver({ secret: process.env.WEBHOOK_SECRET });
+ * http.createServer(webhooks.handler).listen(8080);
+ * const api = new minter.Api({ auth: { apiKey }, webhooks });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+import { Asset, Task } from './types/schema';
+
+const signatureHeader = 'livepeer-signature';
+
+const maxCachedTasks = 1000;
+
+/**
+ * A parsed event received from a Livepeer API webhook.
+ */
+export type WebhookEvent = {
+	/**
+	 * Unique ID of the event.
+	 */
+	id: string;
+	/**
+	 * ID of the webhook configured in the API that sent this event.
+	 */
+	webhookId?: string;
+	/**
+	 * Timestamp (in milliseconds) at which the event was created.
+	 */
+	createdAt?: number;
+	/**
+	 * Type of the event, like `task.updated` or `asset.ready`.
+	 */
+	event: string;
+	/**
+	 * The task that this event refers to, for `task.*` events.
+	 */
+	task?: Task;
+	/**
+	 * The asset that this event refers to, for `asset.*` events.
+	 */
+	asset?: Asset;
+	/**
+	 * The raw payload of the event as sent by the API.
+	 */
+	payload: Record<string, any>;
+};
+
+/**
+ * Options for creating a {@link WebhookReceiver}.
+ */
+export type WebhookReceiverOptions = {
+	/**
+	 * The secret shared with the Livepeer API for signing the webhook calls.
+	 */
+	secret: string;
+	/**
+	 * Maximum age (in milliseconds) accepted for the signature timestamp, to
+	 * protect from replay attacks. Defaults to 5 minutes.
+	 */
+	maxAge?: number;
+};
+
+/**
+ * Error thrown when a webhook call has a missing or invalid signature.
+ */
+export class WebhookSignatureError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'WebhookSignatureError';
+	}
+}
+
+/**
+ * Receives and verifies webhook calls from the Livepeer API, emitting the
+ * parsed events and allowing waiting for task updates.
+ *
+ * @remarks
+ * Emits the following events:
+ *  * `event`: for every verified {@link WebhookEvent}.
+ *  * `task`: with the updated {@link Task} for every `task.*` event.
+ *  * `asset`: with the updated {@link Asset} for every `asset.*` event.
+ *  * `error`: for calls received by the {@link handler} that failed to be
+ *    verified or parsed. Only emitted if there are any listeners.
+ */
+export class WebhookReceiver extends EventEmitter {
+	private secret: string;
+	private maxAge: number;
+	private tasks = new Map<string, Task>();
+
+	/**
+	 * Creates a new `WebhookReceiver`.
+	 *
+	 * @param opts The options for the receiver, including the webhook secret.
+	 */
+	constructor(opts: WebhookReceiverOptions) {
+		super();
+		this.secret = opts.secret;
+		this.maxAge = opts.maxAge ?? 5 * 60 * 1000;
+		// avoid warnings when waiting for many tasks concurrently
+		this.setMaxListeners(0);
+	}
+
+	/**
+	 * HTTP request handler for receiving the webhook calls. Can be used directly
+	 * with `http.createServer` or as an `express` route handler (as long as the
+	 * body has not been parsed as JSON yet).
+	 *
+	 * @remarks
+	 * Responds with `204` for valid events, `401` for invalid signatures and
+	 * `400` for invalid payloads.
+	 */
+	handler = (req: IncomingMessage, res: ServerResponse) => {
+		readBody(req)
+			.then(body => {
+				this.handleEvent(body, req.headers[signatureHeader]);
+				res.writeHead(204).end();
+			})
+			.catch(err => {
+				const status = err instanceof WebhookSignatureError ? 401 : 400;
+				res.writeHead(status, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({ errors: [err.message] }));
+				if (this.listenerCount('error') > 0) {
+					this.emit('error', err);
+				}
+			});
+	};
+
+	/**
+	 * Verifies and handles a raw webhook call received from any HTTP framework.
+	 *
+	 * @param rawBody The raw body of the request, exactly as received.
+	 *
+	 * @param signature The value of the `Livepeer-Signature` header.
+	 *
+	 * @returns The parsed event, which is also emitted to any listeners. Throws a
+	 * {@link WebhookSignatureError} if the signature is invalid.
+	 */
+	handleEvent(rawBody: string | Buffer, signature?: string | string[]) {
+		this.verifySignature(rawBody, signature);
+
+		const payload = JSON.parse(rawBody.toString());
+		if (!payload || typeof payload.event !== 'string') {
+			throw new Error('Invalid webhook payload');
+		}
+		const event: WebhookEvent = {
+			id: payload.id,
+			webhookId: payload.webhookId,
+			createdAt: payload.createdAt,
+			event: payload.event,
+			task: payload.payload?.task,
+			asset: payload.payload?.asset,
+			payload: payload.payload ?? {}
+		};
+		if (event.task?.id) {
+			this.cacheTask(event.task);
+		}
+
+		this.emit('event', event);
+		if (event.task) this.emit('task', event.task);
+		if (event.asset) this.emit('asset', event.asset);
+		return event;
+	}
+
+	/**
+	 * Gets the latest snapshot of a task received in a webhook, if any.
+	 *
+	 * @param taskId The ID of the task.
+	 *
+	 * @returns The last received {@link Task} object or `undefined`.
+	 */
+	latestTask(taskId: string) {
+		return this.tasks.get(taskId);
+	}
+
+	/**
+	 * Waits for the next webhook update of the specified task.
+	 *
+	 * @param taskId The ID of the task to wait for.
+	 *
+	 * @param timeout Maximum time to wait (in milliseconds) for the update.
+	 *
+	 * @param signal Optional signal to stop waiting early.
+	 *
+	 * @returns The updated {@link Task} or `undefined` if no update was received
+	 * within the `timeout` or the wait was aborted.
+	 */
+	nextTaskUpdate(taskId: string, timeout: number, signal?: AbortSignal) {
+		return new Promise<Task | undefined>(resolve => {
+			const listener = (task: Task) => {
+				if (task.id === taskId) {
+					done(task);
+				}
+			};
+			const onAbort = () => done(undefined);
+			const timer = setTimeout(() => done(undefined), timeout);
+			const done = (task: Task | undefined) => {
+				clearTimeout(timer);
+				this.off('task', listener);
+				signal?.removeEventListener('abort', onAbort);
+				resolve(task);
+			};
+			this.on('task', listener);
+			if (signal?.aborted) {
+				return done(undefined);
+			}
+			signal?.addEventListener('abort', onAbort, { once: true });
+		});
+	}
+
+	private verifySignature(body: string | Buffer, header?: string | string[]) {
+		const value = Array.isArray(header) ? header[0] : header;
+		if (!value) {
+			throw new WebhookSignatureError('Missing webhook signature');
+		}
+		const parts = value.split(',').map(p => p.trim().split('='));
+		const timestamp = parts.find(([key]) => key === 't')?.[1];
+		const signatures = parts
+			.filter(([key]) => key === 'v1')
+			.map(([, sig]) => sig);
+		if (!timestamp || signatures.length === 0) {
+			throw new WebhookSignatureError('Malformed webhook signature');
+		}
+		if (Math.abs(Date.now() - Number(timestamp)) > this.maxAge) {
+			throw new WebhookSignatureError('Webhook signature is too old');
+		}
+
+		const expected = crypto
+			.createHmac('sha256', this.secret)
+			.update(body)
+			.digest();
+		const valid = signatures.some(sig => {
+			const actual = Buffer.from(sig, 'hex');
+			return (
+				actual.length === expected.length &&
+				crypto.timingSafeEqual(actual, expected)
+			);
+		});
+		if (!valid) {
+			throw new WebhookSignatureError('Invalid webhook signature');
+		}
+	}
+
+	private cacheTask(task: Task) {
+		const cached = this.tasks.get(task.id);
+		const updatedAt = (t?: Task) => t?.status?.updatedAt ?? 0;
+		if (cached && updatedAt(cached) > updatedAt(task)) {
+			return;
+		}
+		this.tasks.delete(task.id);
+		this.tasks.set(task.id, task);
+		if (this.tasks.size > maxCachedTasks) {
+			const oldest = this.tasks.keys().next().value;
+			this.tasks.delete(oldest);
+		}
+	}
+}
+
+/**
+ * Creates the value of the `Livepeer-Signature` header for a webhook payload.
+ * Useful for testing your webhook handlers locally.
+ *
+ * @remarks
+ * Like in the Livepeer API, the header has the format `t=<timestamp>,v1=<sig>`
+ * where the signature is the hex HMAC-SHA256 of the raw body with the secret.
+ *
+ * @param secret The webhook secret.
+ *
+ * @param body The raw body of the webhook call.
+ *
+ * @param timestamp The signature timestamp, in milliseconds. Defaults to now.
+ *
+ * @returns The signature header value.
+ */
+export function signWebhook(secret: string, body: string, timestamp?: number) {
+	const t = timestamp ?? Date.now();
+	const sig = crypto.createHmac('sha256', secret).update(body).digest('hex');
+	return `t=${t},v1=${sig}`;
+}
+
+function readBody(req: IncomingMessage & { body?: unknown }) {
+	if (typeof req.body === 'string' || Buffer.isBuffer(req.body)) {
+		return Promise.resolve(req.body);
+	}
+	return new Promise<Buffer>((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		req.on('data', chunk => chunks.push(chunk));
+		req.on('error', reject);
+		req.on('end', () => resolve(Buffer.concat(chunks)));
+	});
+}